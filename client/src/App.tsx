@@ -1,36 +1,53 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { AuthProvider, useAuth } from "@/lib/auth";
+import { AuthProvider, useAuth, can } from "@/lib/auth";
 import Dashboard from "@/pages/dashboard";
 import Songs from "@/pages/songs";
 import Services from "@/pages/services";
 import Repertoire from "@/pages/repertoire";
 import Members from "@/pages/members";
+import Availability from "@/pages/availability";
+import Reports from "@/pages/reports";
+import ChurchSettings from "@/pages/church-settings";
+import AuditPage from "@/pages/audit";
+import SecurityPage from "@/pages/security";
+import DevicesPage from "@/pages/devices";
+import Projection from "@/pages/projection";
+import ProjectionOperator from "@/pages/projection-operator";
 import Login from "@/pages/login";
 import ChangePassword from "@/pages/change-password";
 import ResetPassword from "@/pages/reset-password";
+import Setup from "@/pages/setup";
 import NotFound from "@/pages/not-found";
 import { Loader2 } from "lucide-react";
+import type { SetupStatus } from "@shared/setup";
 
 function Router() {
   const { user } = useAuth();
-  const canAccessSongs = user?.role === "admin" || user?.role === "lider";
-  const canAccessMembers = user?.role === "admin" || user?.role === "lider";
 
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
-      {canAccessSongs && <Route path="/songs" component={Songs} />}
+      {can(user, "songs.read") && <Route path="/songs" component={Songs} />}
       <Route path="/services" component={Services} />
       <Route path="/services/:id" component={Services} />
       <Route path="/repertoire/:id" component={Repertoire} />
-      {canAccessMembers && <Route path="/members" component={Members} />}
+      {can(user, "members.view") && <Route path="/members" component={Members} />}
+      {can(user, "reports.view") && <Route path="/reports" component={Reports} />}
+      {can(user, "services.present") && <Route path="/project/:serviceId/operator" component={ProjectionOperator} />}
+      <Route path="/availability" component={Availability} />
+      <Route path="/settings/security">
+        <SecurityPage />
+      </Route>
+      <Route path="/settings/devices" component={DevicesPage} />
+      {can(user, "church.manage") && <Route path="/settings/church" component={ChurchSettings} />}
+      {can(user, "audit.view") && <Route path="/audit" component={AuditPage} />}
       <Route component={NotFound} />
     </Switch>
   );
@@ -62,8 +79,11 @@ function AuthenticatedApp() {
 
 function AppContent() {
   const { user, isLoading } = useAuth();
+  const { data: setup, isLoading: isSetupLoading } = useQuery<SetupStatus>({
+    queryKey: ["/api/setup"],
+  });
 
-  if (isLoading) {
+  if (isLoading || isSetupLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -71,6 +91,18 @@ function AppContent() {
     );
   }
 
+  // Until the first admin exists, /setup is the only page.
+  if (setup?.required) {
+    return (
+      <Switch>
+        <Route path="/setup" component={Setup} />
+        <Route>
+          <Redirect to="/setup" />
+        </Route>
+      </Switch>
+    );
+  }
+
   if (!user) {
     return (
       <Switch>
@@ -84,7 +116,16 @@ function AppContent() {
     return <ChangePassword />;
   }
 
-  return <AuthenticatedApp />;
+  if (user.twoFactorSetupRequired) {
+    return <SecurityPage required />;
+  }
+
+  return (
+    <Switch>
+      <Route path="/project/:serviceId" component={Projection} />
+      <Route component={AuthenticatedApp} />
+    </Switch>
+  );
 }
 
 function App() {
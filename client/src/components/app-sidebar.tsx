@@ -1,5 +1,5 @@
 import { useLocation, Link } from "wouter";
-import { Music, Calendar, Users, Home, Library, LogOut } from "lucide-react";
+import { Music, Calendar, CalendarOff, Users, Home, Library, LogOut, BarChart3, Church, ScrollText, ShieldCheck, MonitorSmartphone } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -15,27 +15,29 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/lib/auth";
-
-const roleLabels: Record<string, string> = {
-  admin: "Admin",
-  lider: "Lider",
-  membro: "Membro",
-};
+import { useAuth, can } from "@/lib/auth";
+import { ROLE_LABELS, type Permission } from "@shared/permissions";
 
 export function AppSidebar() {
   const [location] = useLocation();
   const { user, logout } = useAuth();
 
-  const menuItems = [
-    { title: "Dashboard", url: "/", icon: Home, roles: ["admin", "lider", "membro"] },
-    { title: "Cultos", url: "/services", icon: Calendar, roles: ["admin", "lider", "membro"] },
-    { title: "Biblioteca", url: "/songs", icon: Library, roles: ["admin", "lider"] },
-    { title: "Membros", url: "/members", icon: Users, roles: ["admin", "lider"] },
+  // Items without a permission are open to everyone logged in.
+  const menuItems: { title: string; url: string; icon: typeof Home; permission?: Permission }[] = [
+    { title: "Dashboard", url: "/", icon: Home },
+    { title: "Cultos", url: "/services", icon: Calendar },
+    { title: "Biblioteca", url: "/songs", icon: Library, permission: "songs.read" },
+    { title: "Membros", url: "/members", icon: Users, permission: "members.view" },
+    { title: "Relatorios", url: "/reports", icon: BarChart3, permission: "reports.view" },
+    { title: "Disponibilidade", url: "/availability", icon: CalendarOff },
+    { title: "Seguranca", url: "/settings/security", icon: ShieldCheck },
+    { title: "Dispositivos", url: "/settings/devices", icon: MonitorSmartphone },
+    { title: "Igreja", url: "/settings/church", icon: Church, permission: "church.manage" },
+    { title: "Auditoria", url: "/audit", icon: ScrollText, permission: "audit.view" },
   ];
 
   const visibleItems = menuItems.filter((item) => 
-    user?.role && item.roles.includes(user.role)
+    user && (!item.permission || can(user, item.permission))
   );
 
   const getInitials = (name: string) => {
@@ -98,7 +100,7 @@ export function AppSidebar() {
           <div className="flex flex-col flex-1 min-w-0">
             <span className="text-sm font-medium truncate">{user?.name || "Usuario"}</span>
             <Badge variant="secondary" className="w-fit text-xs">
-              {user?.role ? roleLabels[user.role] : "Membro"}
+              {ROLE_LABELS[user?.role ?? "membro"]}
             </Badge>
           </div>
         </div>
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  REMINDER_CHANNELS,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_OFFSET_OPTIONS,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  describeReminderOffset,
+  type NotificationPreferences,
+  type ReminderChannel,
+} from "@shared/notifications";
+
+export function ReminderPreferencesDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/users/me/notification-preferences"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && preferences) setForm(preferences);
+  }, [open, preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: NotificationPreferences) => {
+      const res = await apiRequest("PUT", "/api/users/me/notification-preferences", data);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/users/me/notification-preferences"], data);
+      onOpenChange(false);
+      toast({ title: "Preferencias de lembrete salvas!" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao salvar preferencias", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleOffset = (hours: number, checked: boolean) => {
+    setForm({
+      ...form,
+      reminderHours: checked ? [...form.reminderHours, hours] : form.reminderHours.filter((h) => h !== hours),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Lembretes de Culto</DialogTitle>
+          <DialogDescription>
+            Receba o repertorio com os tons e o link do culto antes de cada escala
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label>Canal</Label>
+            <Select
+              value={form.channel}
+              onValueChange={(value) => setForm({ ...form, channel: value as ReminderChannel })}
+            >
+              <SelectTrigger data-testid="select-reminder-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REMINDER_CHANNELS.map((channel) => (
+                  <SelectItem key={channel} value={channel}>
+                    {REMINDER_CHANNEL_LABELS[channel]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {form.channel !== "none" && (
+            <div className="flex flex-col gap-2">
+              <Label>Quando avisar</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {REMINDER_OFFSET_OPTIONS.map((hours) => (
+                  <label key={hours} className="flex cursor-pointer items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.reminderHours.includes(hours)}
+                      onCheckedChange={(checked) => toggleOffset(hours, checked === true)}
+                      data-testid={`checkbox-reminder-${hours}`}
+                    />
+                    {describeReminderOffset(hours)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate(form)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-reminders"
+          >
+            {saveMutation.isPending ? "Salvando..." : "Salvar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
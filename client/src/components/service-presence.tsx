@@ -0,0 +1,47 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useAuth } from "@/lib/auth";
+import { describeViewers, type PresenceUser } from "@shared/presence";
+
+const MAX_AVATARS = 4;
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+/** Avatars of the other people viewing the service, fed by `usePresence`. */
+export function ServicePresence({ viewers: allViewers }: { viewers: PresenceUser[] }) {
+  const { user } = useAuth();
+  const viewers = allViewers.filter((viewer) => viewer.id !== user?.id);
+
+  if (viewers.length === 0) return null;
+
+  const hidden = viewers.length - MAX_AVATARS;
+
+  return (
+    <div className="flex items-center gap-2" data-testid="service-presence">
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map((viewer) => (
+          <Avatar key={viewer.id} className="h-7 w-7 border-2 border-background" title={viewer.name}>
+            <AvatarFallback className="bg-primary/10 text-xs text-primary">
+              {getInitials(viewer.name)}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+        {hidden > 0 && (
+          <Avatar className="h-7 w-7 border-2 border-background">
+            <AvatarFallback className="text-xs">+{hidden}</AvatarFallback>
+          </Avatar>
+        )}
+      </div>
+      <span className="text-sm text-muted-foreground">
+        {describeViewers(viewers.map((viewer) => viewer.name))}{" "}
+        {viewers.length === 1 ? "esta online" : "estao online"}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Plus, Trash2, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth, can } from "@/lib/auth";
+import type { User } from "@shared/schema";
+import {
+  TEAM_POSITIONS,
+  TEAM_POSITION_LABELS,
+  type TeamPosition,
+  type ServiceTeamMemberWithUser,
+} from "@shared/team";
+import type { MemberUnavailability } from "@shared/availability";
+
+type TeamMemberOption = Pick<User, "id" | "name" | "status">;
+
+export function ServiceTeam({ serviceId }: { serviceId: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canEdit = can(user, "services.manage");
+
+  const [selectedUserId, setSelectedUserId] = useState("");
+  const [selectedPosition, setSelectedPosition] = useState<TeamPosition | "">("");
+  const [showUnavailable, setShowUnavailable] = useState(false);
+
+  const { data: team = [] } = useQuery<ServiceTeamMemberWithUser[]>({
+    queryKey: ["/api/services", serviceId, "team"],
+  });
+
+  const { data: users = [] } = useQuery<TeamMemberOption[]>({
+    queryKey: ["/api/users"],
+    enabled: canEdit,
+  });
+
+  const { data: unavailable = [] } = useQuery<MemberUnavailability[]>({
+    queryKey: ["/api/services", serviceId, "availability"],
+    enabled: canEdit,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async ({ userId, position }: { userId: string; position: TeamPosition }) => {
+      const res = await apiRequest("POST", `/api/services/${serviceId}/team`, { userId, position });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", serviceId, "team"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/schedule"] });
+      setSelectedUserId("");
+      setSelectedPosition("");
+      toast({ title: "Membro escalado!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao escalar membro", variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (assignmentId: string) => {
+      await apiRequest("DELETE", `/api/services/${serviceId}/team/${assignmentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", serviceId, "team"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/schedule"] });
+      toast({ title: "Membro removido da escala!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao remover membro", variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!selectedUserId || !selectedPosition) return;
+    addMemberMutation.mutate({ userId: selectedUserId, position: selectedPosition });
+  };
+
+  const unavailableReasons = new Map(unavailable.map((u) => [u.userId, u.reason]));
+  const activeUsers = users.filter(
+    (u) => u.status !== "blocked" && (showUnavailable || !unavailableReasons.has(u.id)),
+  );
+  const selectedUnavailableReason = selectedUserId ? unavailableReasons.get(selectedUserId) : undefined;
+  const positionsInUse = TEAM_POSITIONS.filter((position) => team.some((m) => m.position === position));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Equipe</CardTitle>
+        <CardDescription>
+          {team.length} {team.length === 1 ? "membro escalado" : "membros escalados"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {canEdit && (
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+              <SelectTrigger className="sm:w-56" data-testid="select-team-member">
+                <SelectValue placeholder="Selecione um membro" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeUsers.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.name}
+                    {unavailableReasons.has(u.id) && " (indisponivel)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={selectedPosition}
+              onValueChange={(value) => setSelectedPosition(value as TeamPosition)}
+            >
+              <SelectTrigger className="sm:w-44" data-testid="select-team-position">
+                <SelectValue placeholder="Posicao" />
+              </SelectTrigger>
+              <SelectContent>
+                {TEAM_POSITIONS.map((position) => (
+                  <SelectItem key={position} value={position}>
+                    {TEAM_POSITION_LABELS[position]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleAdd}
+              disabled={!selectedUserId || !selectedPosition || addMemberMutation.isPending}
+              data-testid="button-add-team-member"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Escalar
+            </Button>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="show-unavailable"
+              checked={showUnavailable}
+              onCheckedChange={setShowUnavailable}
+              data-testid="switch-show-unavailable"
+            />
+            <Label htmlFor="show-unavailable" className="text-sm text-muted-foreground">
+              Mostrar membros indisponiveis
+            </Label>
+          </div>
+        )}
+
+        {selectedUnavailableReason && (
+          <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-unavailable-warning">
+            <AlertTriangle className="h-4 w-4" />
+            Membro indisponivel nesta data: {selectedUnavailableReason}
+          </p>
+        )}
+
+        {team.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8">
+            <Users className="h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-2 text-sm text-muted-foreground">Nenhum membro escalado</p>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {positionsInUse.map((position) => (
+              <div key={position} className="flex flex-col gap-2" data-testid={`team-position-${position}`}>
+                <span className="text-sm font-medium text-muted-foreground">
+                  {TEAM_POSITION_LABELS[position]}
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  {team
+                    .filter((m) => m.position === position)
+                    .map((member) => (
+                      <Badge
+                        key={member.id}
+                        variant="secondary"
+                        className="gap-1"
+                        data-testid={`team-member-${member.id}`}
+                      >
+                        {unavailableReasons.has(member.userId) && (
+                          <span title={unavailableReasons.get(member.userId)}>
+                            <AlertTriangle className="h-3 w-3 text-destructive" />
+                          </span>
+                        )}
+                        {member.userName}
+                        {canEdit && (
+                          <button
+                            type="button"
+                            className="ml-1 text-muted-foreground hover:text-destructive"
+                            onClick={() => removeMemberMutation.mutate(member.id)}
+                            data-testid={`button-remove-team-member-${member.id}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        )}
+                      </Badge>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CalendarPlus, Plus, Repeat, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Service } from "@shared/schema";
+import { WEEKDAY_LABELS } from "@shared/availability";
+import {
+  RECURRENCE_TYPES,
+  RECURRENCE_LABELS,
+  DEFAULT_SONG_SLOTS,
+  describeRecurrence,
+  describeSlots,
+  type RecurrenceType,
+  type ServiceTemplate,
+  type InsertServiceTemplate,
+  type SongSlot,
+} from "@shared/templates";
+
+const WEEK_OF_MONTH_OPTIONS = [
+  { value: "1", label: "Primeira semana" },
+  { value: "2", label: "Segunda semana" },
+  { value: "3", label: "Terceira semana" },
+  { value: "4", label: "Quarta semana" },
+  { value: "5", label: "Quinta semana" },
+  { value: "-1", label: "Ultima semana" },
+];
+
+function emptyTemplateForm(): InsertServiceTemplate {
+  return {
+    name: "",
+    time: "19:00",
+    recurrence: "weekly",
+    weekday: 0,
+    weekOfMonth: null,
+    startDate: new Date().toISOString().split("T")[0],
+    slots: DEFAULT_SONG_SLOTS.map((slot) => ({ ...slot })),
+  };
+}
+
+export function ServiceTemplatesDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<InsertServiceTemplate>(emptyTemplateForm);
+  const [generateCounts, setGenerateCounts] = useState<Record<string, number>>({});
+
+  const { data: templates = [] } = useQuery<ServiceTemplate[]>({
+    queryKey: ["/api/service-templates"],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertServiceTemplate) => {
+      const res = await apiRequest("POST", "/api/service-templates", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/service-templates"] });
+      setShowForm(false);
+      setForm(emptyTemplateForm());
+      toast({ title: "Modelo criado com sucesso!" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao criar modelo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/service-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/service-templates"] });
+      toast({ title: "Modelo removido!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao remover modelo", variant: "destructive" });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async ({ id, count }: { id: string; count: number }) => {
+      const res = await apiRequest("POST", `/api/service-templates/${id}/generate`, { count });
+      return (await res.json()) as { created: Service[]; skipped: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      toast({
+        title: result.created.length === 1 ? "1 culto gerado!" : `${result.created.length} cultos gerados!`,
+        description: result.skipped > 0 ? `${result.skipped} ja existiam e foram mantidos` : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro ao gerar cultos", variant: "destructive" });
+    },
+  });
+
+  const updateSlot = (index: number, data: Partial<SongSlot>) => {
+    setForm({
+      ...form,
+      slots: form.slots.map((slot, i) => (i === index ? { ...slot, ...data } : slot)),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name) {
+      toast({ title: "Preencha o nome do culto", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      ...form,
+      weekOfMonth: form.recurrence === "monthly" ? form.weekOfMonth ?? 1 : null,
+      slots: form.slots.filter((slot) => slot.label.trim() && slot.count > 0),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Modelos de Culto</DialogTitle>
+          <DialogDescription>
+            Cultos recorrentes com nome, horario e estrutura de musicas padrao
+          </DialogDescription>
+        </DialogHeader>
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="template-name">Nome do Culto *</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Ex: Culto de Domingo 19h"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="template-time">Horario</Label>
+                <Input
+                  id="template-time"
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => setForm({ ...form, time: e.target.value })}
+                  data-testid="input-template-time"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="flex flex-col gap-2">
+                <Label>Recorrencia</Label>
+                <Select
+                  value={form.recurrence}
+                  onValueChange={(value) => setForm({ ...form, recurrence: value as RecurrenceType })}
+                >
+                  <SelectTrigger data-testid="select-template-recurrence">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRENCE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {RECURRENCE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label>Dia da semana</Label>
+                <Select
+                  value={String(form.weekday)}
+                  onValueChange={(value) => setForm({ ...form, weekday: Number(value) })}
+                >
+                  <SelectTrigger data-testid="select-template-weekday">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, index) => (
+                      <SelectItem key={label} value={String(index)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.recurrence === "monthly" ? (
+                <div className="flex flex-col gap-2">
+                  <Label>Semana do mes</Label>
+                  <Select
+                    value={String(form.weekOfMonth ?? 1)}
+                    onValueChange={(value) => setForm({ ...form, weekOfMonth: Number(value) })}
+                  >
+                    <SelectTrigger data-testid="select-template-week-of-month">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEK_OF_MONTH_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="template-start">A partir de</Label>
+                  <Input
+                    id="template-start"
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                    data-testid="input-template-start"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label>Estrutura de musicas</Label>
+              {form.slots.map((slot, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    className="w-20"
+                    value={slot.count}
+                    onChange={(e) => updateSlot(index, { count: Number(e.target.value) })}
+                    data-testid={`input-slot-count-${index}`}
+                  />
+                  <Input
+                    value={slot.label}
+                    onChange={(e) => updateSlot(index, { label: e.target.value })}
+                    placeholder="Ex: Adoração"
+                    data-testid={`input-slot-label-${index}`}
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, slots: form.slots.filter((_, i) => i !== index) })}
+                    data-testid={`button-remove-slot-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="self-start"
+                onClick={() => setForm({ ...form, slots: [...form.slots, { label: "", count: 1 }] })}
+                data-testid="button-add-slot"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Adicionar bloco
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-template">
+                {createMutation.isPending ? "Salvando..." : "Salvar Modelo"}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <div className="flex flex-col gap-4">
+            {templates.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8">
+                <Repeat className="h-12 w-12 text-muted-foreground/50" />
+                <p className="mt-2 text-sm text-muted-foreground">Nenhum modelo cadastrado</p>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-3">
+                {templates.map((template) => (
+                  <div
+                    key={template.id}
+                    className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center"
+                    data-testid={`template-${template.id}`}
+                  >
+                    <div className="flex flex-1 flex-col gap-1">
+                      <span className="font-medium">{template.name}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {describeRecurrence(template)} - {template.time}
+                      </span>
+                      {template.slots.length > 0 && (
+                        <div>
+                          <Badge variant="secondary">{describeSlots(template.slots)}</Badge>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        max={26}
+                        className="w-20"
+                        value={generateCounts[template.id] ?? 4}
+                        onChange={(e) =>
+                          setGenerateCounts({ ...generateCounts, [template.id]: Number(e.target.value) })
+                        }
+                        data-testid={`input-generate-count-${template.id}`}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() =>
+                          generateMutation.mutate({ id: template.id, count: generateCounts[template.id] ?? 4 })
+                        }
+                        disabled={generateMutation.isPending}
+                        data-testid={`button-generate-${template.id}`}
+                      >
+                        <CalendarPlus className="mr-2 h-4 w-4" />
+                        Gerar
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(template.id)}
+                        title="Excluir modelo"
+                        data-testid={`button-delete-template-${template.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              <Button onClick={() => setShowForm(true)} data-testid="button-new-template">
+                <Plus className="mr-2 h-4 w-4" />
+                Novo Modelo
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
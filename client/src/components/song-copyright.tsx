@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Song } from "@shared/schema";
+import type { SongCopyright, InsertSongCopyright } from "@shared/copyright";
+
+const emptyForm: InsertSongCopyright = { ccliNumber: "", authors: "", publisher: "", copyright: "" };
+
+export function SongCopyrightDialog({
+  song,
+  open,
+  onOpenChange,
+}: {
+  song: Song | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<InsertSongCopyright>(emptyForm);
+
+  const { data: copyright, isLoading } = useQuery<SongCopyright | null>({
+    queryKey: ["/api/songs", song?.id, "copyright"],
+    enabled: open && !!song,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      ccliNumber: copyright?.ccliNumber ?? "",
+      authors: copyright?.authors ?? "",
+      publisher: copyright?.publisher ?? "",
+      copyright: copyright?.copyright ?? "",
+    });
+  }, [open, copyright]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertSongCopyright) => {
+      const res = await apiRequest("PUT", `/api/songs/${song!.id}/copyright`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/songs", song?.id, "copyright"] });
+      onOpenChange(false);
+      toast({ title: "Direitos autorais salvos!" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao salvar direitos autorais", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Direitos Autorais</DialogTitle>
+          <DialogDescription>
+            {song ? `${song.title} - ${song.artist}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ccli-number">Numero CCLI</Label>
+            <Input
+              id="ccli-number"
+              inputMode="numeric"
+              value={form.ccliNumber}
+              onChange={(e) => setForm({ ...form, ccliNumber: e.target.value })}
+              placeholder="Ex: 7047136"
+              disabled={isLoading}
+              data-testid="input-ccli-number"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ccli-authors">Autores</Label>
+            <Input
+              id="ccli-authors"
+              value={form.authors}
+              onChange={(e) => setForm({ ...form, authors: e.target.value })}
+              placeholder="Ex: Fulano de Tal, Ciclano"
+              disabled={isLoading}
+              data-testid="input-ccli-authors"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ccli-publisher">Editora</Label>
+            <Input
+              id="ccli-publisher"
+              value={form.publisher}
+              onChange={(e) => setForm({ ...form, publisher: e.target.value })}
+              disabled={isLoading}
+              data-testid="input-ccli-publisher"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ccli-copyright">Linha de copyright</Label>
+            <Input
+              id="ccli-copyright"
+              value={form.copyright}
+              onChange={(e) => setForm({ ...form, copyright: e.target.value })}
+              placeholder="Ex: © 2020 Editora Exemplo"
+              disabled={isLoading}
+              data-testid="input-ccli-copyright"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-copyright">
+              {saveMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
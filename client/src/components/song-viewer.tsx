@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -25,121 +26,13 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Pencil, X, Check, Trash2 } from "lucide-react";
+import { Pencil, X, Check, Trash2, History, RotateCcw, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { diffLines } from "@/lib/diff";
 import type { Song } from "@shared/schema";
-
-const KEYS_MAJOR = [
-  "C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B"
-];
-const KEYS_MINOR = [
-  "Cm", "C#m", "Dbm", "Dm", "D#m", "Ebm", "Em", "Fm", "F#m", "Gbm", "Gm", "G#m", "Abm", "Am", "A#m", "Bbm", "Bm"
-];
-
-const NOTE_MAP: { [key: string]: number } = {
-  "C": 0, "C#": 1, "Db": 1, "D": 2, "D#": 3, "Eb": 3, "E": 4, "F": 5,
-  "F#": 6, "Gb": 6, "G": 7, "G#": 8, "Ab": 8, "A": 9, "A#": 10, "Bb": 10, "B": 11
-};
-const NOTE_NAMES_SHARP = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-const NOTE_NAMES_FLAT = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
-
-const FLAT_KEYS = new Set([
-  "F", "Bb", "Eb", "Ab", "Db", "Gb", "Cb",
-  "Dm", "Gm", "Cm", "Fm", "Bbm", "Ebm", "Abm", "Dbm", "Gbm", "Cbm"
-]);
-
-function getKeyBase(key: string): string {
-  return key.replace("m", "");
-}
-
-function shouldUseFlats(key: string): boolean {
-  if (key.includes("b")) return true;
-  if (key.includes("#")) return false;
-  return FLAT_KEYS.has(key);
-}
-
-function transposeNote(note: string, semitones: number, useFlats: boolean): string {
-  const noteRegex = /^([A-G])([#b]?)$/;
-  const match = note.match(noteRegex);
-  if (!match) return note;
-  
-  const [, root, modifier] = match;
-  const noteValue = NOTE_MAP[root + modifier] ?? NOTE_MAP[root] ?? 0;
-  const newValue = ((noteValue + semitones) % 12 + 12) % 12;
-  const noteNames = useFlats ? NOTE_NAMES_FLAT : NOTE_NAMES_SHARP;
-  return noteNames[newValue];
-}
-
-function transposeChord(chord: string, semitones: number, useFlats: boolean): string {
-  const slashIndex = chord.indexOf("/");
-  if (slashIndex !== -1) {
-    const mainPart = chord.substring(0, slashIndex);
-    const bassPart = chord.substring(slashIndex + 1);
-    const mainTransposed = transposeChord(mainPart, semitones, useFlats);
-    const bassTransposed = transposeNote(bassPart, semitones, useFlats);
-    return mainTransposed + "/" + bassTransposed;
-  }
-
-  const chordRegex = /^([A-G])([#b]?)(.*)$/;
-  const match = chord.match(chordRegex);
-  if (!match) return chord;
-
-  const [, root, modifier, suffix] = match;
-  const noteValue = NOTE_MAP[root + modifier] ?? NOTE_MAP[root] ?? 0;
-  const normalizedSemitones = ((semitones % 12) + 12) % 12;
-  const newValue = ((noteValue + normalizedSemitones) % 12 + 12) % 12;
-  const noteNames = useFlats ? NOTE_NAMES_FLAT : NOTE_NAMES_SHARP;
-  return noteNames[newValue] + suffix;
-}
-
-function isChordToken(token: string): boolean {
-  const chordRegex = /^[A-G][#b]?(?:m|M|maj|min|dim|aug|sus|add|7M|7m|7|9|11|13|6|5|4|2|\+|\-|°|ø|º|\([0-9#b+\-\/]+\))*(?:\/[A-G][#b]?)?$/;
-  return chordRegex.test(token.trim());
-}
-
-function isChordOnlyLine(line: string): boolean {
-  const cleanLine = line
-    .replace(/\[(Intro|Verse|Chorus|Bridge|Refrão|Ponte|Solo|Tab|Instrumental|Pre-Chorus|Pré-Refrão|Outro|Final)\]/gi, "")
-    .replace(/[|\-–—]/g, " ");
-  if (cleanLine.includes("[") && cleanLine.includes("]")) return false;
-  const tokens = cleanLine.trim().split(/\s+/).filter(t => t.length > 0);
-  if (tokens.length === 0) return false;
-  const chordTokens = tokens.filter(t => isChordToken(t));
-  return chordTokens.length > 0 && chordTokens.length >= tokens.length * 0.5;
-}
-
-function normalizeChordLine(line: string, semitones: number, useFlats: boolean): string {
-  return line.replace(/([A-G][#b]?(?:m|M|maj|min|dim|aug|sus|add|7M|7m|7|9|11|13|6|5|4|2|\+|\-|°|ø|º|\([0-9#b+\-\/]+\))*(?:\/[A-G][#b]?)?)/g, (match, _, offset) => {
-    const before = line.slice(Math.max(0, offset - 1), offset);
-    if (before === "[") return match;
-    if (isChordToken(match)) {
-      const transposed = transposeChord(match, semitones, useFlats);
-      return `[${transposed}]`;
-    }
-    return match;
-  });
-}
-
-function transposeContent(content: string, fromKey: string, toKey: string): string {
-  const fromBase = getKeyBase(fromKey);
-  const toBase = getKeyBase(toKey);
-  
-  const fromValue = NOTE_MAP[fromBase];
-  const toValue = NOTE_MAP[toBase];
-  if (fromValue === undefined || toValue === undefined) return content;
-
-  const semitones = toValue - fromValue;
-  const useFlats = shouldUseFlats(toKey);
-
-  const lines = content.split("\n");
-  return lines.map(line => {
-    if (isChordOnlyLine(line)) {
-      return normalizeChordLine(line, semitones, useFlats);
-    }
-    return line.replace(/\[([A-G][#b]?[^\]]*)\]/g, (_, chord) => {
-      return `[${transposeChord(chord, semitones, useFlats)}]`;
-    });
-  }).join("\n");
-}
+import type { SongRevisionWithAuthor } from "@shared/revisions";
+import { KEYS_MAJOR, KEYS_MINOR, isChordToken, transposeContent } from "@shared/chords";
 
 interface ChordPosition {
   chord: string;
@@ -471,6 +364,128 @@ function EditableLine({ line, lineIndex, showChords, isEditing, onLineChange }:
   );
 }
 
+interface SongHistoryProps {
+  song: Song;
+  canRestore: boolean;
+  onRestored?: (song: Song) => void;
+}
+
+function SongHistory({ song, canRestore, onRestored }: SongHistoryProps) {
+  const { toast } = useToast();
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<SongRevisionWithAuthor[]>({
+    queryKey: ["/api/songs", song.id, "revisions"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const res = await apiRequest("POST", `/api/songs/${song.id}/revisions/${revisionId}/restore`);
+      return res.json() as Promise<Song>;
+    },
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/songs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      setSelectedRevisionId(null);
+      onRestored?.(restored);
+      toast({ title: "Versão restaurada!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao restaurar versão", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhuma versão registrada para esta música.</p>;
+  }
+
+  const selectedRevision = revisions.find((r) => r.id === selectedRevisionId) ?? null;
+  const diff = selectedRevision ? diffLines(selectedRevision.content, song.content) : [];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        {revisions.map((revision, index) => (
+          <div
+            key={revision.id}
+            onClick={() => setSelectedRevisionId(revision.id)}
+            className={`flex items-center justify-between gap-2 rounded-md border p-3 cursor-pointer hover-elevate ${
+              revision.id === selectedRevisionId ? "border-primary" : ""
+            }`}
+            data-testid={`revision-${revision.id}`}
+          >
+            <div className="flex flex-col">
+              <span className="text-sm font-medium">
+                {new Date(revision.createdAt).toLocaleString("pt-BR")}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {revision.authorName || "Autor desconhecido"}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-xs">{revision.originalKey}</Badge>
+              {index === 0 && <Badge variant="secondary" className="text-xs">Atual</Badge>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selectedRevision && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              Diferenças desta versão para a atual
+              {selectedRevision.originalKey !== song.originalKey &&
+                ` (tom ${selectedRevision.originalKey} → ${song.originalKey})`}
+            </p>
+            {canRestore && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => restoreMutation.mutate(selectedRevision.id)}
+                disabled={restoreMutation.isPending}
+                data-testid="button-restore-revision"
+              >
+                {restoreMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                )}
+                Restaurar
+              </Button>
+            )}
+          </div>
+          <div className="rounded-md border font-mono text-sm" data-testid="revision-diff">
+            {diff.map((line, idx) => (
+              <div
+                key={idx}
+                className={`whitespace-pre-wrap px-2 ${
+                  line.type === "added"
+                    ? "bg-green-500/10 text-green-700 dark:text-green-400"
+                    : line.type === "removed"
+                    ? "bg-destructive/10 text-destructive"
+                    : ""
+                }`}
+              >
+                {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                {line.text || "\u00A0"}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface SongViewerProps {
   song: Song;
   open: boolean;
@@ -479,6 +494,7 @@ interface SongViewerProps {
   showChordsOnly?: boolean;
   onKeyChange?: (songId: string, newKey: string, transposedContent: string) => void;
   onContentChange?: (songId: string, newContent: string) => void;
+  onRestored?: (song: Song) => void;
   canEdit?: boolean;
 }
 
@@ -490,11 +506,13 @@ export function SongViewer({
   showChordsOnly = false,
   onKeyChange,
   onContentChange,
+  onRestored,
   canEdit = false,
 }: SongViewerProps) {
   const [currentKey, setCurrentKey] = useState(initialKey || song.originalKey);
   const [showChords, setShowChords] = useState(!showChordsOnly);
   const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [editedContent, setEditedContent] = useState(song.content);
 
   useEffect(() => {
@@ -573,13 +591,32 @@ export function SongViewer({
                       </Button>
                     </>
                   ) : (
-                    <Button size="sm" variant="outline" onClick={() => setIsEditing(true)} data-testid="button-edit-chords">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setShowHistory(false);
+                        setIsEditing(true);
+                      }}
+                      data-testid="button-edit-chords"
+                    >
                       <Pencil className="h-4 w-4 mr-1" />
                       Editar Acordes
                     </Button>
                   )}
                 </div>
               )}
+              {!isEditing && (
+                <Button
+                  size="sm"
+                  variant={showHistory ? "secondary" : "ghost"}
+                  onClick={() => setShowHistory(!showHistory)}
+                  data-testid="button-song-history"
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  Histórico
+                </Button>
+              )}
               <div className="flex items-center gap-2">
                 <Label htmlFor="show-chords" className="text-sm">
                   Mostrar Acordes
@@ -634,12 +671,16 @@ export function SongViewer({
         </DialogHeader>
 
         <ScrollArea className="flex-1 p-6">
-          <div
-            className="font-mono text-base leading-relaxed"
-            data-testid="song-content"
-          >
-            {renderContent()}
-          </div>
+          {showHistory ? (
+            <SongHistory song={song} canRestore={canEdit} onRestored={onRestored} />
+          ) : (
+            <div
+              className="font-mono text-base leading-relaxed"
+              data-testid="song-content"
+            >
+              {renderContent()}
+            </div>
+          )}
         </ScrollArea>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { onPresence } from "@/lib/socket";
+import type { PresenceUser } from "@shared/presence";
+
+/** Users currently in the service room; the room itself is joined by `useServiceSync`. */
+export function usePresence(serviceId: string | undefined) {
+  const [viewers, setViewers] = useState<PresenceUser[]>([]);
+
+  useEffect(() => {
+    setViewers([]);
+    if (!serviceId) return;
+    return onPresence((event) => {
+      if (event.serviceId !== serviceId) return;
+      if (event.type === "state") {
+        setViewers(event.viewers);
+      } else if (event.type === "joined") {
+        setViewers((prev) => [...prev.filter((v) => v.id !== event.user.id), event.user]);
+      } else {
+        setViewers((prev) => prev.filter((v) => v.id !== event.userId));
+      }
+    });
+  }, [serviceId]);
+
+  return viewers;
+}
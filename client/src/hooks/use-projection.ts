@@ -0,0 +1,40 @@
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { onProjectionUpdate } from "@/lib/socket";
+import { useServiceSync } from "@/hooks/use-service-sync";
+import type { ServiceWithSongs } from "@shared/schema";
+import { buildSlides, DEFAULT_PROJECTION_STATE, type ProjectionState } from "@shared/projection";
+
+export function useProjection(serviceId: string | undefined) {
+  const { data: service, isLoading } = useQuery<ServiceWithSongs>({
+    queryKey: ["/api/services", serviceId],
+    enabled: !!serviceId,
+  });
+
+  const { data: state = DEFAULT_PROJECTION_STATE } = useQuery<ProjectionState>({
+    queryKey: ["/api/services", serviceId, "projection"],
+    enabled: !!serviceId,
+  });
+
+  useServiceSync(serviceId);
+
+  useEffect(() => {
+    if (!serviceId) return;
+    return onProjectionUpdate((next) => {
+      queryClient.setQueryData(["/api/services", serviceId, "projection"], next);
+    });
+  }, [serviceId]);
+
+  const slides = useMemo(() => {
+    if (!service) return [];
+    const songs = [...service.songs]
+      .sort((a, b) => a.order - b.order)
+      .map((serviceSong) => serviceSong.song);
+    return buildSlides(songs, state.mode, state.linesPerSlide);
+  }, [service, state.mode, state.linesPerSlide]);
+
+  const slideIndex = Math.min(state.slideIndex, Math.max(slides.length - 1, 0));
+
+  return { service, isLoading, state, slides, slideIndex, currentSlide: slides[slideIndex] };
+}
@@ -0,0 +1,54 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { joinService, onServiceEvent } from "@/lib/socket";
+import { applyServiceEvent, type ServiceSnapshot } from "@shared/service-events";
+
+/**
+ * Keeps the cached `["/api/services", id]` snapshot in sync with the service
+ * room: deltas are patched in order, and the snapshot is refetched only when a
+ * revision was skipped (e.g. events missed while disconnected).
+ */
+export function useServiceSync(serviceId: string | undefined) {
+  useEffect(() => {
+    if (!serviceId) return;
+    const queryKey = ["/api/services", serviceId];
+    const refetch = () => queryClient.invalidateQueries({ queryKey, exact: true });
+
+    const leave = joinService(serviceId, (revision) => {
+      const snapshot = queryClient.getQueryData<ServiceSnapshot>(queryKey);
+      if (snapshot && snapshot.revision !== revision) {
+        refetch();
+      }
+    });
+
+    const unsubscribe = onServiceEvent((event) => {
+      if (event.serviceId !== serviceId) return;
+      if (event.type === "service-deleted") {
+        // Dropping the cached copy lets the page show the refetch's 404 as not found.
+        queryClient.resetQueries({ queryKey, exact: true });
+        queryClient.invalidateQueries({ queryKey: ["/api/services"], exact: true });
+        return;
+      }
+      const snapshot = queryClient.getQueryData<ServiceSnapshot>(queryKey);
+      if (!snapshot) {
+        // A fetch in flight may predate this event; restart it.
+        if (queryClient.isFetching({ queryKey, exact: true })) refetch();
+        return;
+      }
+      if (event.revision <= snapshot.revision) return;
+      if (event.revision !== snapshot.revision + 1) {
+        refetch();
+        return;
+      }
+      queryClient.setQueryData(queryKey, applyServiceEvent(snapshot, event));
+      if (event.type === "service-renamed") {
+        queryClient.invalidateQueries({ queryKey: ["/api/services"], exact: true });
+      }
+    });
+
+    return () => {
+      leave();
+      unsubscribe();
+    };
+  }, [serviceId]);
+}
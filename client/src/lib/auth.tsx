@@ -1,7 +1,9 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { apiRequest } from "./queryClient";
+import { disconnectSocket, onServerDisconnect } from "./socket";
+import { hasPermission, type Permission, type UserRole } from "@shared/permissions";
 
-export type UserRole = "admin" | "lider" | "membro";
+export type { UserRole };
 
 export interface AuthUser {
   id: string;
@@ -10,12 +12,17 @@ export interface AuthUser {
   role: UserRole;
   status: string;
   mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
+/** "two-factor" means the password was accepted and a verification code is needed next. */
+export type LoginResult = "ok" | "two-factor";
+
 interface AuthContextType {
   user: AuthUser | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   logout: () => Promise<void>;
   refetchUser: () => Promise<void>;
 }
@@ -46,19 +53,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refetchUser().finally(() => setIsLoading(false));
   }, []);
 
-  const login = async (email: string, password: string) => {
+  // A revoked session shows up as the server dropping the socket; recheck and fall back to login.
+  useEffect(
+    () =>
+      onServerDisconnect(() => {
+        disconnectSocket();
+        refetchUser();
+      }),
+    []
+  );
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     const response = await apiRequest("POST", "/api/auth/login", { email, password });
     const userData = await response.json();
+    if (userData.twoFactorRequired) {
+      return "two-factor";
+    }
+    disconnectSocket();
+    setUser(userData);
+    return "ok";
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    const response = await apiRequest("POST", "/api/auth/login", { code });
+    const userData = await response.json();
+    disconnectSocket();
     setUser(userData);
   };
 
   const logout = async () => {
     await apiRequest("POST", "/api/auth/logout");
+    disconnectSocket();
     setUser(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout, refetchUser }}>
+    <AuthContext.Provider value={{ user, isLoading, login, verifyTwoFactor, logout, refetchUser }}>
       {children}
     </AuthContext.Provider>
   );
@@ -72,14 +102,7 @@ export function useAuth() {
   return context;
 }
 
-export function canAccessSongs(role: UserRole): boolean {
-  return role === "admin" || role === "lider";
-}
-
-export function canManageMembers(role: UserRole): boolean {
-  return role === "admin" || role === "lider";
-}
-
-export function canCreateServices(role: UserRole): boolean {
-  return role === "admin" || role === "lider";
+/** Whether the logged-in user's role grants the permission (see `shared/permissions.ts`). */
+export function can(user: AuthUser | null | undefined, permission: Permission): boolean {
+  return hasPermission(user?.role, permission);
 }
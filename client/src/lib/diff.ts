@@ -0,0 +1,35 @@
+export type DiffLine = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", text: a[i++] });
+  while (j < b.length) result.push({ type: "added", text: b[j++] });
+
+  return result;
+}
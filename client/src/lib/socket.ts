@@ -1,8 +1,33 @@
 import { io, Socket } from "socket.io-client";
+import type { ServiceEvent } from "@shared/service-events";
+import type { ProjectionState } from "@shared/projection";
+import type { LiveSession } from "@shared/live";
+import type { PresenceEvent } from "@shared/presence";
+import type { ClientToServerEvents, ServerToClientEvents } from "@shared/socket-events";
 
-let socket: Socket | null = null;
+type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
-export function getSocket(): Socket {
+let socket: AppSocket | null = null;
+
+// Rooms are dropped on disconnect, so joined services are remembered and
+// rejoined after the socket reconnects. Several components may sit in the same
+// room; it is only left once the last of them leaves.
+const joinedServices = new Map<string, Set<(revision: number) => void>>();
+
+// The server drops a login's sockets when the session is revoked.
+const serverDisconnectListeners = new Set<() => void>();
+
+function emitJoin(s: AppSocket, serviceId: string) {
+  s.emit("join-service", serviceId, (result) => {
+    if (!result.ok) {
+      console.warn(`Could not join service ${serviceId}: ${result.error}`);
+      return;
+    }
+    Array.from(joinedServices.get(serviceId) ?? []).forEach((onJoined) => onJoined(result.revision));
+  });
+}
+
+export function getSocket(): AppSocket {
   if (!socket) {
     socket = io({
       autoConnect: true,
@@ -10,24 +35,89 @@ export function getSocket(): Socket {
       reconnectionDelay: 1000,
       reconnectionAttempts: 5
     });
+    const s = socket;
+    s.io.on("reconnect", () => {
+      Array.from(joinedServices.keys()).forEach((serviceId) => emitJoin(s, serviceId));
+    });
+    s.on("disconnect", (reason) => {
+      if (reason === "io server disconnect") {
+        Array.from(serverDisconnectListeners).forEach((listener) => listener());
+      }
+    });
   }
   return socket;
 }
 
-export function joinService(serviceId: string) {
+// The handshake carries the session cookie, so the connection has to be
+// re-established whenever the logged-in user changes.
+export function disconnectSocket() {
+  if (socket) {
+    socket.disconnect();
+    socket = null;
+  }
+  joinedServices.clear();
+}
+
+/** Called when the server closes the connection itself, e.g. after the session was revoked. */
+export function onServerDisconnect(callback: () => void) {
+  serverDisconnectListeners.add(callback);
+  return () => {
+    serverDisconnectListeners.delete(callback);
+  };
+}
+
+/**
+ * Joins the service room; `onJoined` receives the server revision on every
+ * (re)join. Returns a function that drops this subscription.
+ */
+export function joinService(serviceId: string, onJoined: (revision: number) => void = () => {}) {
+  const s = getSocket();
+  // Wrapped so each call counts as its own subscription, even with the same callback.
+  const subscriber = (revision: number) => onJoined(revision);
+  let subscribers = joinedServices.get(serviceId);
+  if (!subscribers) {
+    subscribers = new Set();
+    joinedServices.set(serviceId, subscribers);
+  }
+  subscribers.add(subscriber);
+  emitJoin(s, serviceId);
+
+  return () => {
+    const current = joinedServices.get(serviceId);
+    if (!current?.delete(subscriber) || current.size > 0) return;
+    joinedServices.delete(serviceId);
+    getSocket().emit("leave-service", serviceId);
+  };
+}
+
+export function onServiceEvent(callback: (event: ServiceEvent) => void) {
   const s = getSocket();
-  s.emit("join-service", serviceId);
+  s.on("service-event", callback);
+  return () => {
+    s.off("service-event", callback);
+  };
 }
 
-export function leaveService(serviceId: string) {
+export function onProjectionUpdate(callback: (state: ProjectionState) => void) {
   const s = getSocket();
-  s.emit("leave-service", serviceId);
+  s.on("projection-updated", callback);
+  return () => {
+    s.off("projection-updated", callback);
+  };
+}
+
+export function onLiveUpdate(callback: (session: LiveSession) => void) {
+  const s = getSocket();
+  s.on("live-updated", callback);
+  return () => {
+    s.off("live-updated", callback);
+  };
 }
 
-export function onServiceUpdate(callback: (data: any) => void) {
+export function onPresence(callback: (event: PresenceEvent) => void) {
   const s = getSocket();
-  s.on("service-updated", callback);
+  s.on("presence", callback);
   return () => {
-    s.off("service-updated", callback);
+    s.off("presence", callback);
   };
 }
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, FileSearch, ScrollText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_TYPES,
+  AUDIT_TARGET_TYPE_LABELS,
+  type AuditEntry,
+} from "@shared/audit";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+type Filters = {
+  actorId: string;
+  action: string;
+  targetType: string;
+  from: string;
+  to: string;
+};
+
+const emptyFilters: Filters = { actorId: ALL, action: ALL, targetType: ALL, from: "", to: "" };
+
+function formatTimestamp(value: string | Date): string {
+  return new Date(value).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function Snapshot({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-2">
+      <Label>{label}</Label>
+      {value === null || value === undefined ? (
+        <p className="text-sm text-muted-foreground">Sem dados</p>
+      ) : (
+        <ScrollArea className="h-72 rounded-md border bg-muted/40">
+          <pre className="p-3 text-xs">{JSON.stringify(value, null, 2)}</pre>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
+
+function AuditRow({ entry, onDetails }: { entry: AuditEntry; onDetails: () => void }) {
+  const hasDetails = entry.before !== null || entry.after !== null;
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3"
+      data-testid={`audit-entry-${entry.id}`}
+    >
+      <div className="flex flex-col gap-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{entry.actorName ?? "Anonimo"}</span>
+          <Badge variant="secondary">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {formatTimestamp(entry.createdAt)}
+          {" · "}
+          {AUDIT_TARGET_TYPE_LABELS[entry.targetType] ?? entry.targetType}
+          {entry.targetId ? ` ${entry.targetId}` : ""}
+          {entry.ip ? ` · IP ${entry.ip}` : ""}
+        </span>
+      </div>
+      {hasDetails && (
+        <Button variant="ghost" size="sm" onClick={onDetails} data-testid={`button-audit-details-${entry.id}`}>
+          <FileSearch className="mr-2 h-4 w-4" />
+          Detalhes
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+
+  const updateFilter = (changes: Partial<Filters>) => {
+    setFilters({ ...filters, ...changes });
+    setPage(0);
+  };
+
+  const params: Record<string, string> = { limit: String(PAGE_SIZE + 1), offset: String(page * PAGE_SIZE) };
+  if (filters.actorId !== ALL) params.actorId = filters.actorId;
+  if (filters.action !== ALL) params.action = filters.action;
+  if (filters.targetType !== ALL) params.targetType = filters.targetType;
+  if (filters.from) params.from = filters.from;
+  if (filters.to) params.to = filters.to;
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // One extra row is requested to know whether there is a next page.
+  const { data: rows = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: ["/api/admin/audit", params],
+    queryFn: async () => {
+      const search = new URLSearchParams(params);
+      const res = await apiRequest("GET", `/api/admin/audit?${search.toString()}`);
+      return res.json();
+    },
+    staleTime: 0,
+  });
+
+  const entries = rows.slice(0, PAGE_SIZE);
+  const hasNextPage = rows.length > PAGE_SIZE;
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold">Auditoria</h1>
+        <p className="text-muted-foreground">Quem alterou o que, quando e de onde</p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-2">
+          <Label>Usuario</Label>
+          <Select value={filters.actorId} onValueChange={(value) => updateFilter({ actorId: value })}>
+            <SelectTrigger className="w-48" data-testid="select-audit-actor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label>Tipo</Label>
+          <Select value={filters.targetType} onValueChange={(value) => updateFilter({ targetType: value })}>
+            <SelectTrigger className="w-44" data-testid="select-audit-target-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos</SelectItem>
+              {AUDIT_TARGET_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {AUDIT_TARGET_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label>Acao</Label>
+          <Select value={filters.action} onValueChange={(value) => updateFilter({ action: value })}>
+            <SelectTrigger className="w-56" data-testid="select-audit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas</SelectItem>
+              {AUDIT_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {AUDIT_ACTION_LABELS[action]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="audit-from">De</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter({ from: e.target.value })}
+            data-testid="input-audit-from"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="audit-to">Ate</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter({ to: e.target.value })}
+            data-testid="input-audit-to"
+          />
+        </div>
+        <Button variant="outline" onClick={() => updateFilter(emptyFilters)} data-testid="button-audit-clear">
+          Limpar filtros
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ScrollText className="h-4 w-4" />
+            Eventos
+          </CardTitle>
+          <CardDescription>Mais recentes primeiro</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          {isLoading ? (
+            [1, 2, 3, 4, 5].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+          ) : entries.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">Nenhum evento encontrado</p>
+          ) : (
+            entries.map((entry) => <AuditRow key={entry.id} entry={entry} onDetails={() => setSelected(entry)} />)
+          )}
+          {(page > 0 || hasNextPage) && (
+            <div className="flex items-center justify-end gap-2 pt-2">
+              <span className="text-sm text-muted-foreground">Pagina {page + 1}</span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                data-testid="button-audit-previous"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage(page + 1)}
+                disabled={!hasNextPage}
+                data-testid="button-audit-next"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{selected ? AUDIT_ACTION_LABELS[selected.action] ?? selected.action : ""}</DialogTitle>
+            <DialogDescription>
+              {selected && `${selected.actorName ?? "Anonimo"} · ${formatTimestamp(selected.createdAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <div className="flex flex-col gap-4 md:flex-row">
+              <Snapshot label="Antes" value={selected.before} />
+              <Snapshot label="Depois" value={selected.after} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CalendarOff, Plus, Repeat, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  WEEKDAY_LABELS,
+  describeRecurring,
+  type UserAvailability,
+  type InsertBlockout,
+} from "@shared/availability";
+
+const WEEK_OF_MONTH_OPTIONS = [
+  { value: "every", label: "Toda semana" },
+  { value: "1", label: "Primeira do mes" },
+  { value: "2", label: "Segunda do mes" },
+  { value: "3", label: "Terceira do mes" },
+  { value: "4", label: "Quarta do mes" },
+  { value: "5", label: "Quinta do mes" },
+  { value: "-1", label: "Ultima do mes" },
+];
+
+function formatDate(date: string): string {
+  return new Date(date + "T00:00:00").toLocaleDateString("pt-BR");
+}
+
+export default function Availability() {
+  const { toast } = useToast();
+  const today = new Date().toISOString().split("T")[0];
+
+  const [blockoutForm, setBlockoutForm] = useState<InsertBlockout>({
+    startDate: today,
+    endDate: today,
+    reason: "",
+  });
+  const [weekday, setWeekday] = useState("0");
+  const [weekOfMonth, setWeekOfMonth] = useState("every");
+
+  const { data: availability, isLoading } = useQuery<UserAvailability>({
+    queryKey: ["/api/users/me/availability"],
+  });
+
+  const invalidateAvailability = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users/me/availability"] });
+  };
+
+  const createBlockoutMutation = useMutation({
+    mutationFn: async (data: InsertBlockout) => {
+      const res = await apiRequest("POST", "/api/users/me/availability/blockouts", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAvailability();
+      setBlockoutForm({ startDate: today, endDate: today, reason: "" });
+      toast({ title: "Ausencia registrada!" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao registrar ausencia", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteBlockoutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/users/me/availability/blockouts/${id}`);
+    },
+    onSuccess: () => {
+      invalidateAvailability();
+      toast({ title: "Ausencia removida!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao remover ausencia", variant: "destructive" });
+    },
+  });
+
+  const createRecurringMutation = useMutation({
+    mutationFn: async (data: { weekday: number; weekOfMonth: number | null }) => {
+      const res = await apiRequest("POST", "/api/users/me/availability/recurring", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAvailability();
+      toast({ title: "Indisponibilidade recorrente registrada!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao registrar indisponibilidade", variant: "destructive" });
+    },
+  });
+
+  const deleteRecurringMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/users/me/availability/recurring/${id}`);
+    },
+    onSuccess: () => {
+      invalidateAvailability();
+      toast({ title: "Indisponibilidade removida!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao remover indisponibilidade", variant: "destructive" });
+    },
+  });
+
+  const handleAddBlockout = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (blockoutForm.endDate < blockoutForm.startDate) {
+      toast({ title: "A data final deve ser igual ou posterior a inicial", variant: "destructive" });
+      return;
+    }
+    createBlockoutMutation.mutate(blockoutForm);
+  };
+
+  const handleAddRecurring = () => {
+    createRecurringMutation.mutate({
+      weekday: Number(weekday),
+      weekOfMonth: weekOfMonth === "every" ? null : Number(weekOfMonth),
+    });
+  };
+
+  const blockouts = availability?.blockouts ?? [];
+  const recurring = availability?.recurring ?? [];
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold">Disponibilidade</h1>
+        <p className="text-muted-foreground">
+          Informe quando voce nao pode ser escalado
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Ausencias</CardTitle>
+            <CardDescription>Viagens, ferias e outros periodos fora</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            <form onSubmit={handleAddBlockout} className="flex flex-col gap-3">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="blockout-start">De</Label>
+                  <Input
+                    id="blockout-start"
+                    type="date"
+                    value={blockoutForm.startDate}
+                    onChange={(e) => setBlockoutForm({ ...blockoutForm, startDate: e.target.value })}
+                    data-testid="input-blockout-start"
+                  />
+                </div>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="blockout-end">Ate</Label>
+                  <Input
+                    id="blockout-end"
+                    type="date"
+                    value={blockoutForm.endDate}
+                    onChange={(e) => setBlockoutForm({ ...blockoutForm, endDate: e.target.value })}
+                    data-testid="input-blockout-end"
+                  />
+                </div>
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="blockout-reason">Motivo (opcional)</Label>
+                <Input
+                  id="blockout-reason"
+                  placeholder="Ex: Viagem"
+                  value={blockoutForm.reason ?? ""}
+                  onChange={(e) => setBlockoutForm({ ...blockoutForm, reason: e.target.value })}
+                  data-testid="input-blockout-reason"
+                />
+              </div>
+              <Button type="submit" disabled={createBlockoutMutation.isPending} data-testid="button-add-blockout">
+                <Plus className="mr-2 h-4 w-4" />
+                Adicionar Ausencia
+              </Button>
+            </form>
+
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : blockouts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-6">
+                <CalendarOff className="h-10 w-10 text-muted-foreground/50" />
+                <p className="mt-2 text-sm text-muted-foreground">Nenhuma ausencia registrada</p>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-2">
+                {blockouts.map((blockout) => (
+                  <div
+                    key={blockout.id}
+                    className="flex items-center justify-between gap-3 rounded-md border p-3"
+                    data-testid={`blockout-${blockout.id}`}
+                  >
+                    <div className="flex flex-col gap-0.5">
+                      <span className="font-medium">
+                        {blockout.startDate === blockout.endDate
+                          ? formatDate(blockout.startDate)
+                          : `${formatDate(blockout.startDate)} - ${formatDate(blockout.endDate)}`}
+                      </span>
+                      {blockout.reason && (
+                        <span className="text-sm text-muted-foreground">{blockout.reason}</span>
+                      )}
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteBlockoutMutation.mutate(blockout.id)}
+                      data-testid={`button-delete-blockout-${blockout.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Indisponibilidade Recorrente</CardTitle>
+            <CardDescription>Ex: nunca no primeiro domingo do mes</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Select value={weekOfMonth} onValueChange={setWeekOfMonth}>
+                <SelectTrigger className="sm:w-44" data-testid="select-week-of-month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEK_OF_MONTH_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={weekday} onValueChange={setWeekday}>
+                <SelectTrigger className="sm:w-40" data-testid="select-weekday">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <SelectItem key={label} value={String(index)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleAddRecurring}
+                disabled={createRecurringMutation.isPending}
+                data-testid="button-add-recurring"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Adicionar
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : recurring.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-6">
+                <Repeat className="h-10 w-10 text-muted-foreground/50" />
+                <p className="mt-2 text-sm text-muted-foreground">Nenhuma regra recorrente</p>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-2">
+                {recurring.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between gap-3 rounded-md border p-3"
+                    data-testid={`recurring-${rule.id}`}
+                  >
+                    <span className="font-medium">{describeRecurring(rule)}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteRecurringMutation.mutate(rule.id)}
+                      data-testid={`button-delete-recurring-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
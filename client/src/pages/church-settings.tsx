@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Church } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { DEFAULT_CHURCH_SETTINGS, type ChurchSettings, type UpdateChurchSettings } from "@shared/church";
+
+const emptyForm: UpdateChurchSettings = {
+  name: DEFAULT_CHURCH_SETTINGS.name,
+  primaryColor: DEFAULT_CHURCH_SETTINGS.primaryColor,
+  secondaryColor: DEFAULT_CHURCH_SETTINGS.secondaryColor,
+  logoUrl: "",
+};
+
+export default function ChurchSettingsPage() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<UpdateChurchSettings>(emptyForm);
+
+  const { data: settings, isLoading } = useQuery<ChurchSettings>({
+    queryKey: ["/api/church"],
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      name: settings.name,
+      primaryColor: settings.primaryColor,
+      secondaryColor: settings.secondaryColor,
+      logoUrl: settings.logoUrl ?? "",
+    });
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UpdateChurchSettings) => {
+      const res = await apiRequest("PUT", "/api/church", data);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/church"], data);
+      toast({ title: "Dados da igreja salvos!" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao salvar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold">Igreja</h1>
+        <p className="text-muted-foreground">Nome, cores e logo usados nos emails enviados aos membros</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Church className="h-4 w-4" />
+              Identidade
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="church-name">Nome</Label>
+                  <Input
+                    id="church-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    data-testid="input-church-name"
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="flex flex-col gap-2">
+                    <Label htmlFor="church-primary-color">Cor principal</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="color"
+                        className="w-14 p-1"
+                        value={form.primaryColor}
+                        onChange={(e) => setForm({ ...form, primaryColor: e.target.value })}
+                        aria-label="Selecionar cor principal"
+                      />
+                      <Input
+                        id="church-primary-color"
+                        value={form.primaryColor}
+                        onChange={(e) => setForm({ ...form, primaryColor: e.target.value })}
+                        data-testid="input-church-primary-color"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label htmlFor="church-secondary-color">Cor de destaque</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="color"
+                        className="w-14 p-1"
+                        value={form.secondaryColor}
+                        onChange={(e) => setForm({ ...form, secondaryColor: e.target.value })}
+                        aria-label="Selecionar cor de destaque"
+                      />
+                      <Input
+                        id="church-secondary-color"
+                        value={form.secondaryColor}
+                        onChange={(e) => setForm({ ...form, secondaryColor: e.target.value })}
+                        data-testid="input-church-secondary-color"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="church-logo">URL do logo</Label>
+                  <Input
+                    id="church-logo"
+                    value={form.logoUrl ?? ""}
+                    onChange={(e) => setForm({ ...form, logoUrl: e.target.value })}
+                    placeholder="https://..."
+                    data-testid="input-church-logo"
+                  />
+                </div>
+                <Button type="submit" className="self-start" disabled={saveMutation.isPending} data-testid="button-save-church">
+                  {saveMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pre-visualizacao</CardTitle>
+            <CardDescription>Cabecalho e botao dos emails</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col gap-4 rounded-md border bg-white p-6 text-black">
+              {form.logoUrl ? (
+                <img src={form.logoUrl} alt={form.name} className="max-h-[60px] self-start" />
+              ) : (
+                <p className="text-lg font-bold" style={{ color: form.primaryColor }}>
+                  {form.name}
+                </p>
+              )}
+              <div className="rounded-lg p-4 text-center" style={{ backgroundColor: form.secondaryColor }}>
+                <span className="text-2xl font-bold tracking-widest" style={{ color: form.primaryColor }}>
+                  123456
+                </span>
+              </div>
+              <span
+                className="self-center rounded-md px-6 py-2 text-white"
+                style={{ backgroundColor: form.primaryColor }}
+              >
+                Ver Repertorio
+              </span>
+              <p className="text-sm">Equipe {form.name}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
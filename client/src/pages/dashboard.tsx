@@ -1,11 +1,14 @@
+import { useState } from "react";
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Calendar, Music, Users, Plus, ArrowRight } from "lucide-react";
+import { Calendar, Music, Users, Plus, ArrowRight, Bell } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Service, Song, User } from "@shared/schema";
+import { TEAM_POSITION_LABELS, type ScheduledService } from "@shared/team";
+import { ReminderPreferencesDialog } from "@/components/reminder-preferences";
 
 function StatCard({
   title,
@@ -39,6 +42,8 @@ function StatCard({
 }
 
 export default function Dashboard() {
+  const [remindersOpen, setRemindersOpen] = useState(false);
+
   const { data: services = [], isLoading: loadingServices } = useQuery<Service[]>({
     queryKey: ["/api/services"],
   });
@@ -51,6 +56,10 @@ export default function Dashboard() {
     queryKey: ["/api/users"],
   });
 
+  const { data: mySchedule = [], isLoading: loadingSchedule } = useQuery<ScheduledService[]>({
+    queryKey: ["/api/users/me/schedule"],
+  });
+
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   
@@ -67,6 +76,8 @@ export default function Dashboard() {
 
   const recentSongs = songs.slice(0, 5);
 
+  const myNextServices = mySchedule.slice(0, 3);
+
   return (
     <div className="flex flex-col gap-6 p-6">
       <div className="flex flex-col gap-2">
@@ -121,6 +132,62 @@ export default function Dashboard() {
         </Button>
       </div>
 
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+          <div className="flex flex-col gap-1.5">
+            <CardTitle className="text-lg">Minhas Escalas</CardTitle>
+            <CardDescription>Proximos cultos em que voce esta escalado</CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setRemindersOpen(true)}
+            title="Lembretes"
+            data-testid="button-reminder-preferences"
+          >
+            <Bell className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loadingSchedule ? (
+            <div className="flex flex-col gap-3">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : myNextServices.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              Voce nao esta escalado para nenhum culto
+            </p>
+          ) : (
+            <div className="flex flex-col gap-3">
+              {myNextServices.map((service) => (
+                <Link
+                  key={service.id}
+                  href={`/repertoire/${service.id}`}
+                  className="flex items-center justify-between gap-3 rounded-md border p-3 hover-elevate"
+                  data-testid={`my-schedule-${service.id}`}
+                >
+                  <div className="flex flex-col gap-1">
+                    <span className="font-medium">{service.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {new Date(service.date + "T00:00:00").toLocaleDateString("pt-BR")} - {service.time}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {service.positions.map((position) => (
+                      <Badge key={position} variant="secondary">
+                        {TEAM_POSITION_LABELS[position]}
+                      </Badge>
+                    ))}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid gap-6 lg:grid-cols-2">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-2">
@@ -225,6 +292,8 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <ReminderPreferencesDialog open={remindersOpen} onOpenChange={setRemindersOpen} />
     </div>
   );
 }
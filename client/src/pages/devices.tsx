@@ -0,0 +1,147 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { LogOut, MonitorSmartphone } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/sessions";
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return "desconhecido";
+  return new Date(value).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function SessionRow({
+  session,
+  onRevoke,
+  isRevoking,
+}: {
+  session: ActiveSession;
+  onRevoke: () => void;
+  isRevoking: boolean;
+}) {
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3"
+      data-testid={`session-${session.id}`}
+    >
+      <div className="flex flex-col gap-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{session.device}</span>
+          {session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {session.ip ? `IP ${session.ip} · ` : ""}
+          Ultimo acesso {formatTimestamp(session.lastSeenAt)}
+          {session.createdAt ? ` · Entrou em ${formatTimestamp(session.createdAt)}` : ""}
+        </span>
+      </div>
+      {!session.current && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onRevoke}
+          disabled={isRevoking}
+          data-testid={`button-revoke-session-${session.id}`}
+        >
+          <LogOut className="mr-2 h-4 w-4" />
+          Encerrar
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default function DevicesPage() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Sessao encerrada" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao encerrar sessao", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/auth/sessions");
+      return res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Outras sessoes encerradas",
+        description: data.revoked === 1 ? "1 dispositivo foi desconectado." : `${data.revoked} dispositivos foram desconectados.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao encerrar sessoes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold">Meus dispositivos</h1>
+        <p className="text-muted-foreground">Onde sua conta esta conectada no momento</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="flex flex-col gap-1.5">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <MonitorSmartphone className="h-4 w-4" />
+              Sessoes ativas
+            </CardTitle>
+            <CardDescription>Encerre qualquer sessao que voce nao reconhecer</CardDescription>
+          </div>
+          {otherSessions.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+              data-testid="button-revoke-other-sessions"
+            >
+              Encerrar todas as outras
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          {isLoading ? (
+            [1, 2, 3].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+          ) : (
+            sessions.map((session) => (
+              <SessionRow
+                key={session.id}
+                session={session}
+                onRevoke={() => revokeMutation.mutate(session.id)}
+                isRevoking={revokeMutation.isPending}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
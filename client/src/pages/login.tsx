@@ -5,25 +5,37 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Music, Loader2 } from "lucide-react";
+import { Music, Loader2, ShieldCheck } from "lucide-react";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
 
 export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [step, setStep] = useState<"password" | "two-factor">("password");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTwoFactor } = useAuth();
   const { toast } = useToast();
 
+  const welcome = () => {
+    toast({
+      title: "Bem-vindo!",
+      description: "Login realizado com sucesso.",
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      await login(email, password);
-      toast({
-        title: "Bem-vindo!",
-        description: "Login realizado com sucesso.",
-      });
+      const result = await login(email, password);
+      if (result === "two-factor") {
+        setStep("two-factor");
+        return;
+      }
+      welcome();
     } catch (error: any) {
       const message = error?.message || "Email ou senha incorretos";
       toast({
@@ -36,6 +48,105 @@ export default function Login() {
     }
   };
 
+  const submitCode = async (value: string) => {
+    if (!value.trim()) return;
+    setIsLoading(true);
+
+    try {
+      await verifyTwoFactor(value.trim());
+      welcome();
+    } catch (error: any) {
+      setCode("");
+      const message = error?.message || "Codigo invalido";
+      toast({
+        title: "Erro na verificacao",
+        description: message,
+        variant: "destructive",
+      });
+      // The server drops the pending login after too many attempts or when it expires.
+      if (message.includes("expirada")) {
+        setStep("password");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBackToPassword = () => {
+    setStep("password");
+    setCode("");
+    setUseRecoveryCode(false);
+  };
+
+  if (step === "two-factor") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary">
+              <ShieldCheck className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <CardTitle className="text-2xl">Verificacao em duas etapas</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Digite um dos seus codigos de recuperacao"
+                : "Digite o codigo de 6 digitos do seu aplicativo autenticador"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitCode(code);
+              }}
+              className="flex flex-col items-center gap-4"
+            >
+              {useRecoveryCode ? (
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoFocus
+                  autoComplete="off"
+                  data-testid="input-recovery-code"
+                />
+              ) : (
+                <TwoFactorCodeInput value={code} onChange={setCode} onComplete={submitCode} disabled={isLoading} />
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading || !code} data-testid="button-verify-code">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verificando...
+                  </>
+                ) : (
+                  "Verificar"
+                )}
+              </Button>
+              <div className="flex w-full justify-between gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={handleBackToPassword}>
+                  Voltar
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Usar aplicativo autenticador" : "Usar codigo de recuperacao"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -1,8 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, useSearch } from "wouter";
-import { Users, Plus, Trash2, Ban, CheckCircle, KeyRound } from "lucide-react";
-import { Card, CardContent } from "@/components/ui/card";
+import { Users, Plus, Trash2, Ban, CheckCircle, KeyRound, Mail, MailWarning, Send, Lock, LockOpen } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -25,8 +25,17 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, can } from "@/lib/auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { User, UserRole } from "@shared/schema";
+import type { User } from "@shared/schema";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, USER_ROLES, type UserRole } from "@shared/permissions";
+import {
+  CREDENTIAL_EMAIL_KINDS,
+  EMAIL_KIND_LABELS,
+  EMAIL_STATUS_LABELS,
+  type OutboxEmailSummary,
+} from "@shared/email";
+import type { LockedAccount } from "@shared/login-throttle";
 
 interface SafeUser {
   id: string;
@@ -37,11 +46,11 @@ interface SafeUser {
   createdAt: string | null;
 }
 
-const ROLES: { value: UserRole; label: string; description: string }[] = [
-  { value: "membro", label: "Membro", description: "Visualiza cultos e repertorios" },
-  { value: "lider", label: "Lider", description: "Cria musicas, cultos e gerencia membros" },
-  { value: "admin", label: "Admin", description: "Acesso completo ao sistema" },
-];
+const ROLES: { value: UserRole; label: string; description: string }[] = USER_ROLES.map((role) => ({
+  value: role,
+  label: ROLE_LABELS[role],
+  description: ROLE_DESCRIPTIONS[role],
+}));
 
 function getRoleColor(role: UserRole): "default" | "secondary" | "outline" {
   switch (role) {
@@ -49,13 +58,13 @@ function getRoleColor(role: UserRole): "default" | "secondary" | "outline" {
       return "default";
     case "lider":
       return "secondary";
-    case "membro":
+    default:
       return "outline";
   }
 }
 
 function getRoleLabel(role: UserRole): string {
-  return ROLES.find((r) => r.value === role)?.label || role;
+  return ROLE_LABELS[role] ?? role;
 }
 
 function getInitials(name: string): string {
@@ -72,6 +81,11 @@ export default function Members() {
   const searchParams = useSearch();
   const showNewModal = searchParams.includes("new=true");
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canInvite = can(user, "members.invite");
+  const canManageMembers = can(user, "members.manage");
+  const canChangeRoles = can(user, "members.roles");
+  const canManageSecurity = can(user, "security.manage");
 
   const [showAddModal, setShowAddModal] = useState(showNewModal);
   const [formData, setFormData] = useState<{ name: string; email: string; role: UserRole }>({
@@ -84,19 +98,45 @@ export default function Members() {
     queryKey: ["/api/users"],
   });
 
+  // Poll while something is still queued so retries show up without a reload.
+  const { data: emails = [] } = useQuery<OutboxEmailSummary[]>({
+    queryKey: ["/api/admin/emails"],
+    enabled: can(user, "emails.manage"),
+    refetchInterval: (query) => (query.state.data?.some((email) => email.status === "queued") ? 30000 : false),
+  });
+
+  const { data: lockedAccounts = [] } = useQuery<LockedAccount[]>({
+    queryKey: ["/api/admin/locked-accounts"],
+    enabled: canManageSecurity,
+    refetchInterval: 60000,
+  });
+
+  // The member list tracks access emails only, so a later reminder doesn't hide
+  // a failed password email. Emails come newest first: the first one seen is the latest.
+  const latestEmailByUser = new Map<string, OutboxEmailSummary>();
+  emails.forEach((email) => {
+    if (!email.kind || !CREDENTIAL_EMAIL_KINDS.includes(email.kind)) return;
+    if (email.userId && !latestEmailByUser.has(email.userId)) {
+      latestEmailByUser.set(email.userId, email);
+    }
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: { name: string; email: string; role: UserRole }) => {
       const res = await apiRequest("POST", "/api/users", data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/emails"] });
       setShowAddModal(false);
       setFormData({ name: "", email: "", role: "membro" });
       setLocation("/members");
       toast({ 
         title: "Membro cadastrado!", 
-        description: "Uma senha provisoria foi enviada por email."
+        description: data.emailSent
+          ? "Uma senha provisoria foi enviada por email."
+          : "O email com a senha provisoria falhou e sera reenviado automaticamente.",
       });
     },
     onError: () => {
@@ -136,15 +176,35 @@ export default function Members() {
     },
   });
 
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Papel alterado",
+        description: `${data.name} agora e ${getRoleLabel(data.role)} e precisa entrar novamente.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao alterar papel", description: error.message, variant: "destructive" });
+    },
+  });
+
   const resetPasswordMutation = useMutation({
     mutationFn: async (id: string) => {
       const res = await apiRequest("POST", `/api/users/${id}/reset-password`);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/emails"] });
       toast({ 
-        title: "Email enviado!",
-        description: "O membro recebera um email para redefinir a senha."
+        title: data.emailSent ? "Email enviado!" : "Email na fila",
+        description: data.emailSent
+          ? "O membro recebera um email para redefinir a senha."
+          : "O envio falhou e sera tentado novamente automaticamente.",
       });
     },
     onError: () => {
@@ -152,6 +212,37 @@ export default function Members() {
     },
   });
 
+  const resendEmailMutation = useMutation({
+    mutationFn: async (emailId: string) => {
+      const res = await apiRequest("POST", `/api/admin/emails/${emailId}/resend`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/emails"] });
+      toast({
+        title: data.sent ? "Email reenviado!" : "Falha ao reenviar",
+        description: data.sent ? undefined : "O email ficou na fila para nova tentativa.",
+        variant: data.sent ? undefined : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao reenviar email", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (email: string) => {
+      await apiRequest("DELETE", `/api/admin/locked-accounts/${encodeURIComponent(email)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/locked-accounts"] });
+      toast({ title: "Conta desbloqueada", description: "O login foi liberado novamente." });
+    },
+    onError: () => {
+      toast({ title: "Erro ao desbloquear conta", variant: "destructive" });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name || !formData.email) {
@@ -180,12 +271,18 @@ export default function Members() {
         </p>
       </div>
 
-      <div className="flex items-center gap-4">
-        <Button onClick={() => setShowAddModal(true)} data-testid="button-invite-member">
-          <Plus className="mr-2 h-4 w-4" />
-          Convidar Membro
-        </Button>
-      </div>
+      {canInvite && (
+        <div className="flex items-center gap-4">
+          <Button onClick={() => setShowAddModal(true)} data-testid="button-invite-member">
+            <Plus className="mr-2 h-4 w-4" />
+            Convidar Membro
+          </Button>
+        </div>
+      )}
+
+      {lockedAccounts.length > 0 && (
+        <LockedAccountsCard accounts={lockedAccounts} onUnlock={(email) => unlockMutation.mutate(email)} />
+      )}
 
       {isLoading ? (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -201,10 +298,12 @@ export default function Members() {
             <p className="text-sm text-muted-foreground">
               Convide os membros da equipe de louvor
             </p>
-            <Button className="mt-4" onClick={() => setShowAddModal(true)}>
-              <Plus className="mr-2 h-4 w-4" />
-              Convidar Membro
-            </Button>
+            {canInvite && (
+              <Button className="mt-4" onClick={() => setShowAddModal(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Convidar Membro
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -220,7 +319,9 @@ export default function Members() {
                     onDelete={() => deleteMutation.mutate(member.id)}
                     onBlock={() => blockMutation.mutate(member.id)}
                     onResetPassword={() => resetPasswordMutation.mutate(member.id)}
-                    isAdmin={member.role === "admin"}
+                    email={latestEmailByUser.get(member.id)}
+                    onResendEmail={(emailId) => resendEmailMutation.mutate(emailId)}
+                    readOnly
                   />
                 ))}
               </div>
@@ -238,7 +339,10 @@ export default function Members() {
                     onDelete={() => deleteMutation.mutate(member.id)}
                     onBlock={() => blockMutation.mutate(member.id)}
                     onResetPassword={() => resetPasswordMutation.mutate(member.id)}
-                    isAdmin={false}
+                    email={latestEmailByUser.get(member.id)}
+                    onResendEmail={(emailId) => resendEmailMutation.mutate(emailId)}
+                    onChangeRole={canChangeRoles ? (role) => roleMutation.mutate({ id: member.id, role }) : undefined}
+                    readOnly={!canManageMembers}
                   />
                 ))}
               </div>
@@ -256,7 +360,10 @@ export default function Members() {
                     onDelete={() => deleteMutation.mutate(member.id)}
                     onBlock={() => blockMutation.mutate(member.id)}
                     onResetPassword={() => resetPasswordMutation.mutate(member.id)}
-                    isAdmin={false}
+                    email={latestEmailByUser.get(member.id)}
+                    onResendEmail={(emailId) => resendEmailMutation.mutate(emailId)}
+                    onChangeRole={canChangeRoles ? (role) => roleMutation.mutate({ id: member.id, role }) : undefined}
+                    readOnly={!canManageMembers}
                   />
                 ))}
               </div>
@@ -344,13 +451,19 @@ function MemberCard({
   onDelete,
   onBlock,
   onResetPassword,
-  isAdmin,
+  email,
+  onResendEmail,
+  onChangeRole,
+  readOnly,
 }: {
   member: SafeUser;
   onDelete: () => void;
   onBlock: () => void;
   onResetPassword: () => void;
-  isAdmin: boolean;
+  email?: OutboxEmailSummary;
+  onResendEmail: (emailId: string) => void;
+  onChangeRole?: (role: UserRole) => void;
+  readOnly?: boolean;
 }) {
   const isBlocked = member.status === "blocked";
   
@@ -366,9 +479,24 @@ function MemberCard({
           <span className="font-medium">{member.name}</span>
           <span className="text-sm text-muted-foreground">{member.email}</span>
           <div className="mt-1 flex items-center gap-2">
-            <Badge variant={getRoleColor(member.role)} className="text-xs">
-              {getRoleLabel(member.role)}
-            </Badge>
+            {onChangeRole ? (
+              <Select value={member.role} onValueChange={(value) => onChangeRole(value as UserRole)}>
+                <SelectTrigger className="h-6 w-24 text-xs" data-testid={`select-member-role-${member.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant={getRoleColor(member.role)} className="text-xs">
+                {getRoleLabel(member.role)}
+              </Badge>
+            )}
             {member.status === "pending" && (
               <Badge variant="outline" className="text-xs">
                 Pendente
@@ -379,10 +507,22 @@ function MemberCard({
                 Bloqueado
               </Badge>
             )}
+            {email && <EmailStatusBadge email={email} />}
           </div>
         </div>
-        {!isAdmin && (
+        {!readOnly && (
           <div className="flex items-center gap-1">
+            {email?.status === "failed" && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onResendEmail(email.id)}
+                title="Reenviar email"
+                data-testid={`button-resend-email-${member.id}`}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               size="icon"
               variant="ghost"
@@ -416,3 +556,70 @@ function MemberCard({
     </Card>
   );
 }
+
+function LockedAccountsCard({
+  accounts,
+  onUnlock,
+}: {
+  accounts: LockedAccount[];
+  onUnlock: (email: string) => void;
+}) {
+  return (
+    <Card data-testid="card-locked-accounts">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Lock className="h-4 w-4" />
+          Logins bloqueados ({accounts.length})
+        </CardTitle>
+        <CardDescription>Contas travadas temporariamente apos muitas tentativas de senha incorretas</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2">
+        {accounts.map((account) => (
+          <div
+            key={account.email}
+            className="flex items-center justify-between gap-4 rounded-md border p-3"
+            data-testid={`locked-account-${account.email}`}
+          >
+            <div className="flex flex-col gap-1">
+              <span className="font-medium">{account.userName ?? account.email}</span>
+              <span className="text-sm text-muted-foreground">
+                {account.userName ? `${account.email} · ` : "Email nao cadastrado · "}
+                {account.failures} tentativas · ate{" "}
+                {new Date(account.lockedUntil).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onUnlock(account.email)}
+              data-testid={`button-unlock-${account.email}`}
+            >
+              <LockOpen className="mr-2 h-4 w-4" />
+              Desbloquear
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function EmailStatusBadge({ email }: { email: OutboxEmailSummary }) {
+  const kind = email.kind ? EMAIL_KIND_LABELS[email.kind] : "Email";
+  const details =
+    email.status === "sent"
+      ? `${kind} enviado em ${new Date(email.sentAt ?? email.createdAt).toLocaleString("pt-BR")}`
+      : `${kind} · ${email.attempts} ${email.attempts === 1 ? "tentativa" : "tentativas"}${email.lastError ? ` · ${email.lastError}` : ""}`;
+
+  return (
+    <Badge
+      variant={email.status === "failed" ? "destructive" : email.status === "queued" ? "secondary" : "outline"}
+      className="gap-1 text-xs"
+      title={details}
+      data-testid={`badge-email-status-${email.userId}`}
+    >
+      {email.status === "sent" ? <Mail className="h-3 w-3" /> : <MailWarning className="h-3 w-3" />}
+      Email: {EMAIL_STATUS_LABELS[email.status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, ExternalLink, EyeOff, Loader2, Monitor } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProjection } from "@/hooks/use-projection";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ProjectionState, SlideMode } from "@shared/projection";
+
+export default function ProjectionOperator() {
+  const params = useParams<{ serviceId: string }>();
+  const { toast } = useToast();
+  const { service, isLoading, state, slides, slideIndex, currentSlide } = useProjection(params.serviceId);
+
+  const updateMutation = useMutation({
+    mutationFn: async (next: ProjectionState) => {
+      const res = await apiRequest("PUT", `/api/services/${params.serviceId}/projection`, next);
+      return res.json();
+    },
+    onMutate: (next) => {
+      queryClient.setQueryData(["/api/services", params.serviceId, "projection"], next);
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", params.serviceId, "projection"] });
+      toast({ title: "Erro ao atualizar projecao", variant: "destructive" });
+    },
+  });
+
+  const update = (changes: Partial<ProjectionState>) => {
+    updateMutation.mutate({ ...state, slideIndex, ...changes });
+  };
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= slides.length) return;
+    update({ slideIndex: index, blank: false });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") return;
+      if (e.key === "ArrowRight" || e.key === "PageDown" || e.key === " ") {
+        e.preventDefault();
+        goTo(slideIndex + 1);
+      } else if (e.key === "ArrowLeft" || e.key === "PageUp") {
+        e.preventDefault();
+        goTo(slideIndex - 1);
+      } else if (e.key === "b" || e.key === "B") {
+        update({ blank: !state.blank });
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!service) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Culto nao encontrado</p>
+        <Button variant="outline" asChild>
+          <Link href="/services">Voltar</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href={`/services/${service.id}`}>
+              <ChevronLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div className="flex flex-col gap-1">
+            <h1 className="text-2xl font-semibold">Projecao</h1>
+            <p className="text-muted-foreground">{service.name}</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild data-testid="button-open-projector">
+          <a href={`/project/${service.id}`} target="_blank" rel="noreferrer">
+            <ExternalLink className="mr-2 h-4 w-4" />
+            Abrir Tela de Projecao
+          </a>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-2">
+          <Label>Dividir slides</Label>
+          <Select
+            value={state.mode}
+            onValueChange={(value) => update({ mode: value as SlideMode, slideIndex: 0 })}
+          >
+            <SelectTrigger className="w-44" data-testid="select-slide-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="section">Por secao</SelectItem>
+              <SelectItem value="lines">Por linhas</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {state.mode === "lines" && (
+          <div className="flex flex-col gap-2">
+            <Label>Linhas por slide</Label>
+            <Select
+              value={String(state.linesPerSlide)}
+              onValueChange={(value) => update({ linesPerSlide: Number(value), slideIndex: 0 })}
+            >
+              <SelectTrigger className="w-28" data-testid="select-lines-per-slide">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[2, 3, 4, 5, 6].map((n) => (
+                  <SelectItem key={n} value={String(n)}>
+                    {n}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => goTo(slideIndex - 1)}
+            disabled={slideIndex === 0}
+            data-testid="button-previous-slide"
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Anterior
+          </Button>
+          <Button
+            onClick={() => goTo(slideIndex + 1)}
+            disabled={slideIndex >= slides.length - 1}
+            data-testid="button-next-slide"
+          >
+            Proximo
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+          <Button
+            variant={state.blank ? "default" : "outline"}
+            onClick={() => update({ blank: !state.blank })}
+            title="Tela preta (B)"
+            data-testid="button-blank-screen"
+          >
+            <EyeOff className="mr-1 h-4 w-4" />
+            Tela preta
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Monitor className="h-4 w-4" />
+              No telao
+            </CardTitle>
+            <CardDescription>
+              Slide {slides.length === 0 ? 0 : slideIndex + 1} de {slides.length} · Setas ou espaco para avancar
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div
+              className="flex aspect-video flex-col items-center justify-center gap-2 rounded-md bg-black p-6 text-center text-white"
+              data-testid="projection-preview"
+            >
+              {!state.blank && currentSlide && (
+                currentSlide.isTitle ? (
+                  <>
+                    <span className="text-2xl font-bold">{currentSlide.lines[0]}</span>
+                    {currentSlide.lines[1] && <span className="text-white/70">{currentSlide.lines[1]}</span>}
+                  </>
+                ) : (
+                  currentSlide.lines.map((line, index) => (
+                    <span key={index} className="text-xl font-semibold">
+                      {line}
+                    </span>
+                  ))
+                )
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Slides</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[60vh] pr-3">
+              <div className="flex flex-col gap-2">
+                {slides.map((slide, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => goTo(index)}
+                    className={`flex flex-col gap-1 rounded-md border p-2 text-left text-sm hover-elevate ${
+                      index === slideIndex ? "border-primary bg-primary/10" : ""
+                    }`}
+                    data-testid={`slide-${index}`}
+                  >
+                    {slide.isTitle ? (
+                      <span className="font-semibold">{slide.songTitle}</span>
+                    ) : (
+                      <>
+                        {slide.label && (
+                          <Badge variant="secondary" className="self-start">
+                            {slide.label}
+                          </Badge>
+                        )}
+                        <span className="line-clamp-2 text-muted-foreground">{slide.lines.join(" / ")}</span>
+                      </>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
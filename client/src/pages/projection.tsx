@@ -0,0 +1,69 @@
+import { useParams } from "wouter";
+import { Loader2, Maximize } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useProjection } from "@/hooks/use-projection";
+
+export default function Projection() {
+  const params = useParams<{ serviceId: string }>();
+  const { service, isLoading, state, currentSlide } = useProjection(params.serviceId);
+
+  const handleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-black">
+        <Loader2 className="h-8 w-8 animate-spin text-white/50" />
+      </div>
+    );
+  }
+
+  if (!service) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-black text-white/60">
+        Culto nao encontrado
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="group relative flex h-screen w-screen items-center justify-center overflow-hidden bg-black p-12 text-center text-white"
+      onDoubleClick={handleFullscreen}
+      data-testid="projection-screen"
+    >
+      {!state.blank && currentSlide && (
+        <div className="flex flex-col gap-4">
+          {currentSlide.isTitle ? (
+            <>
+              <h1 className="text-6xl font-bold">{currentSlide.lines[0]}</h1>
+              {currentSlide.lines[1] && <p className="text-3xl text-white/70">{currentSlide.lines[1]}</p>}
+            </>
+          ) : (
+            currentSlide.lines.map((line, index) => (
+              <p key={index} className="text-5xl font-semibold leading-tight">
+                {line}
+              </p>
+            ))
+          )}
+        </div>
+      )}
+
+      <Button
+        size="icon"
+        variant="ghost"
+        className="absolute right-4 top-4 cursor-pointer text-white opacity-0 transition-opacity group-hover:opacity-100"
+        onClick={handleFullscreen}
+        title="Tela cheia"
+        data-testid="button-projection-fullscreen"
+      >
+        <Maximize className="h-5 w-5" />
+      </Button>
+    </div>
+  );
+}
@@ -1,168 +1,57 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { joinService, leaveService, onServiceUpdate } from "@/lib/socket";
+import { onLiveUpdate } from "@/lib/socket";
+import { useServiceSync } from "@/hooks/use-service-sync";
+import { usePresence } from "@/hooks/use-presence";
+import { ServicePresence } from "@/components/service-presence";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Loader2, ArrowLeft, Edit, Save, X, ChevronUp, ChevronDown, Music, Eye, EyeOff } from "lucide-react";
+import { Loader2, ArrowLeft, Edit, Save, X, ChevronUp, ChevronDown, Music, Eye, EyeOff, Printer, Radio, Link2, Unlink } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/lib/auth";
+import { useAuth, can } from "@/lib/auth";
 import type { ServiceWithSongs, Song } from "@shared/schema";
-
-const KEYS_MAJOR = [
-  "C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B"
-];
-const KEYS_MINOR = [
-  "Cm", "C#m", "Dbm", "Dm", "D#m", "Ebm", "Em", "Fm", "F#m", "Gbm", "Gm", "G#m", "Abm", "Am", "A#m", "Bbm", "Bm"
-];
-const KEYS = [...KEYS_MAJOR, ...KEYS_MINOR];
-
-const NOTE_MAP: { [key: string]: number } = {
-  "C": 0, "C#": 1, "Db": 1, "D": 2, "D#": 3, "Eb": 3, "E": 4, "F": 5,
-  "F#": 6, "Gb": 6, "G": 7, "G#": 8, "Ab": 8, "A": 9, "A#": 10, "Bb": 10, "B": 11
-};
-const NOTE_NAMES_SHARP = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-const NOTE_NAMES_FLAT = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
-
-const FLAT_KEYS = new Set([
-  "F", "Bb", "Eb", "Ab", "Db", "Gb", "Cb",
-  "Dm", "Gm", "Cm", "Fm", "Bbm", "Ebm", "Abm", "Dbm", "Gbm", "Cbm"
-]);
-
-function shouldUseFlats(key: string): boolean {
-  if (key.includes("b")) return true;
-  if (key.includes("#")) return false;
-  return FLAT_KEYS.has(key);
-}
-
-function transposeNote(note: string, semitones: number, useFlats: boolean): string {
-  const noteRegex = /^([A-G])([#b]?)$/;
-  const match = note.match(noteRegex);
-  if (!match) return note;
-  
-  const [, root, modifier] = match;
-  const noteValue = NOTE_MAP[root + modifier] ?? NOTE_MAP[root] ?? 0;
-  const newValue = ((noteValue + semitones) % 12 + 12) % 12;
-  const noteNames = useFlats ? NOTE_NAMES_FLAT : NOTE_NAMES_SHARP;
-  return noteNames[newValue];
-}
-
-function transposeChord(chord: string, semitones: number, useFlats: boolean = false): string {
-  const slashIndex = chord.indexOf("/");
-  if (slashIndex !== -1) {
-    const mainPart = chord.substring(0, slashIndex);
-    const bassPart = chord.substring(slashIndex + 1);
-    const mainTransposed = transposeChord(mainPart, semitones, useFlats);
-    const bassTransposed = transposeNote(bassPart, semitones, useFlats);
-    return mainTransposed + "/" + bassTransposed;
-  }
-
-  const chordRegex = /^([A-G])([#b]?)(.*)$/;
-  const match = chord.match(chordRegex);
-  if (!match) return chord;
-
-  const [, root, modifier, suffix] = match;
-  const noteValue = NOTE_MAP[root + modifier] ?? NOTE_MAP[root] ?? 0;
-  const normalizedSemitones = ((semitones % 12) + 12) % 12;
-  const newValue = ((noteValue + normalizedSemitones) % 12 + 12) % 12;
-  const noteNames = useFlats ? NOTE_NAMES_FLAT : NOTE_NAMES_SHARP;
-  return noteNames[newValue] + suffix;
-}
-
-function isChordToken(token: string): boolean {
-  const chordRegex = /^[A-G][#b]?(?:m|M|maj|min|dim|aug|sus|add|7M|7m|7|9|11|13|6|5|4|2|\+|\-|°|ø|º|\([0-9#b+\-\/]+\))*(?:\/[A-G][#b]?)?$/;
-  return chordRegex.test(token.trim());
-}
-
-function isChordOnlyLine(line: string): boolean {
-  const cleanLine = line
-    .replace(/\[(Intro|Verse|Chorus|Bridge|Refrão|Ponte|Solo|Tab|Instrumental|Pre-Chorus|Pré-Refrão|Outro|Final)\]/gi, "")
-    .replace(/[|\-–—]/g, " ");
-  if (cleanLine.includes("[") && cleanLine.includes("]")) return false;
-  const tokens = cleanLine.trim().split(/\s+/).filter(t => t.length > 0);
-  if (tokens.length === 0) return false;
-  const chordTokens = tokens.filter(t => isChordToken(t));
-  return chordTokens.length > 0 && chordTokens.length >= tokens.length * 0.5;
-}
-
-function normalizeChordLine(line: string, semitones: number, useFlats: boolean): string {
-  return line.replace(/([A-G][#b]?(?:m|M|maj|min|dim|aug|sus|add|7M|7m|7|9|11|13|6|5|4|2|\+|\-|°|ø|º|\([0-9#b+\-\/]+\))*(?:\/[A-G][#b]?)?)/g, (match, _, offset) => {
-    const before = line.slice(Math.max(0, offset - 1), offset);
-    if (before === "[") return match;
-    if (isChordToken(match)) {
-      const transposed = transposeChord(match, semitones, useFlats);
-      return `[${transposed}]`;
-    }
-    return match;
-  });
-}
-
-function transposeContent(content: string, fromKey: string, toKey: string): string {
-  const getBaseKey = (key: string) => key.replace("m", "");
-  const fromBase = getBaseKey(fromKey);
-  const toBase = getBaseKey(toKey);
-  
-  const fromValue = NOTE_MAP[fromBase];
-  const toValue = NOTE_MAP[toBase];
-  if (fromValue === undefined || toValue === undefined) return content;
-
-  const semitones = toValue - fromValue;
-  const useFlats = shouldUseFlats(toKey);
-
-  const lines = content.split("\n");
-  return lines.map(line => {
-    if (isChordOnlyLine(line)) {
-      return normalizeChordLine(line, semitones, useFlats);
-    }
-    return line.replace(/\[([A-G][#b]?[^\]]*)\]/g, (_, chord) => {
-      return `[${transposeChord(chord, semitones, useFlats)}]`;
-    });
-  }).join("\n");
-}
+import { KEYS_MAJOR, KEYS_MINOR, getSectionLabel, layoutChordLine, transposeContent } from "@shared/chords";
+import { INACTIVE_LIVE_SESSION, type LiveSession, type LiveUpdate } from "@shared/live";
 
 function renderChordLine(content: string, showChords: boolean): JSX.Element[] {
   const lines = content.split("\n");
   const result: JSX.Element[] = [];
+  let sectionIndex = 0;
 
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const chordMatches = Array.from(line.matchAll(/\[([^\]]+)\]/g));
+    const sectionLabel = getSectionLabel(lines[i]);
+    if (sectionLabel) {
+      // Section markers are tagged so live mode can follow the leader within a song.
+      result.push(
+        <div
+          key={i}
+          className="text-primary font-bold whitespace-pre scroll-mt-48"
+          style={{ fontFamily: "monospace" }}
+          data-section-index={sectionIndex++}
+          data-section-label={sectionLabel}
+        >
+          {sectionLabel}
+        </div>
+      );
+      continue;
+    }
+
+    const { chordLine, lyricLine: textLine, hasChords } = layoutChordLine(lines[i]);
 
-    if (chordMatches.length === 0) {
+    if (!hasChords) {
       result.push(
         <div key={i} className="min-h-[1.5em] whitespace-pre-wrap">
-          {line || "\u00A0"}
+          {textLine || "\u00A0"}
         </div>
       );
     } else {
-      let chordLine = "";
-      let textLine = "";
-      let lastIndex = 0;
-      let chordPosition = 0;
-
-      for (const match of chordMatches) {
-        const beforeChord = line.substring(lastIndex, match.index);
-        textLine += beforeChord;
-
-        while (chordPosition < textLine.length) {
-          chordLine += " ";
-          chordPosition++;
-        }
-
-        chordLine += match[1];
-        chordPosition += match[1].length;
-
-        lastIndex = (match.index || 0) + match[0].length;
-      }
-
-      textLine += line.substring(lastIndex);
-
       if (showChords) {
         result.push(
           <div key={i} className="flex flex-col">
@@ -209,24 +98,33 @@ export default function Repertoire() {
     localStorage.setItem(storageKey, String(showChords));
   }, [showChords, user?.id]);
 
-  const canEdit = user?.role === "admin" || user?.role === "lider";
+  const canLead = can(user, "services.present");
+  const canTakeOver = can(user, "services.takeover");
+  const canEditSongs = can(user, "songs.write");
+  const [following, setFollowing] = useState(true);
+  const lastBroadcast = useRef<string | null>(null);
+  const scrollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const { data: service, isLoading, refetch } = useQuery<ServiceWithSongs>({
     queryKey: ["/api/services", params.id],
     enabled: !!params.id,
   });
 
+  const { data: live = INACTIVE_LIVE_SESSION } = useQuery<LiveSession>({
+    queryKey: ["/api/services", params.id, "live"],
+    enabled: !!params.id,
+  });
+
+  const isLeading = live.active && live.leaderId === user?.id;
+
+  useServiceSync(params.id);
+  const viewers = usePresence(params.id);
+
   useEffect(() => {
-    if (params.id) {
-      joinService(params.id);
-      const unsubscribe = onServiceUpdate((data) => {
-        queryClient.setQueryData(["/api/services", params.id], data);
-      });
-      return () => {
-        leaveService(params.id!);
-        unsubscribe();
-      };
-    }
+    if (!params.id) return;
+    return onLiveUpdate((session) => {
+      queryClient.setQueryData(["/api/services", params.id, "live"], session);
+    });
   }, [params.id]);
 
   const updateKeyMutation = useMutation({
@@ -263,6 +161,103 @@ export default function Repertoire() {
     }
   };
 
+  const liveMutation = useMutation({
+    mutationFn: async (update: LiveUpdate) => {
+      const res = await apiRequest("PUT", `/api/services/${params.id}/live`, update);
+      return (await res.json()) as LiveSession;
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData(["/api/services", params.id, "live"], session);
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", params.id, "live"] });
+      toast({ title: "Erro ao atualizar modo ao vivo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Finds the song card and section marker closest to the top of the scroll area.
+  const getCurrentPosition = useCallback((): LiveUpdate | null => {
+    const container = containerRef.current;
+    if (!container) return null;
+    const threshold = container.getBoundingClientRect().top + 80;
+
+    let current: { id: string; el: HTMLDivElement } | null = null;
+    for (const [id, el] of Object.entries(songRefs.current)) {
+      if (!el) continue;
+      const top = el.getBoundingClientRect().top;
+      if (top <= threshold && (!current || top > current.el.getBoundingClientRect().top)) {
+        current = { id, el };
+      }
+    }
+    if (!current) {
+      const first = service?.songs.slice().sort((a, b) => a.order - b.order)[0];
+      if (!first || !songRefs.current[first.id]) return null;
+      current = { id: first.id, el: songRefs.current[first.id]! };
+    }
+
+    let sectionIndex: number | null = null;
+    let sectionLabel: string | null = null;
+    current.el.querySelectorAll<HTMLElement>("[data-section-index]").forEach((marker) => {
+      if (marker.getBoundingClientRect().top <= threshold) {
+        sectionIndex = Number(marker.dataset.sectionIndex);
+        sectionLabel = marker.dataset.sectionLabel ?? null;
+      }
+    });
+
+    return { active: true, serviceSongId: current.id, sectionIndex, sectionLabel };
+  }, [service]);
+
+  const broadcastPosition = useCallback(() => {
+    const position = getCurrentPosition();
+    if (!position) return;
+    const key = `${position.serviceSongId}:${position.sectionIndex}`;
+    if (key === lastBroadcast.current) return;
+    lastBroadcast.current = key;
+    liveMutation.mutate(position);
+  }, [getCurrentPosition, liveMutation]);
+
+  const handleContainerScroll = () => {
+    if (!isLeading) return;
+    if (scrollTimer.current) clearTimeout(scrollTimer.current);
+    scrollTimer.current = setTimeout(broadcastPosition, 300);
+  };
+
+  const startLive = () => {
+    lastBroadcast.current = null;
+    liveMutation.mutate(getCurrentPosition() ?? { active: true });
+  };
+
+  const stopLive = () => {
+    lastBroadcast.current = null;
+    liveMutation.mutate({ active: false });
+  };
+
+  // Followers jump to the leader's song, and to the section inside it when known.
+  useEffect(() => {
+    if (!live.active || isLeading || !following || !live.serviceSongId) return;
+    const card = songRefs.current[live.serviceSongId];
+    if (!card) return;
+    const marker =
+      live.sectionIndex !== null
+        ? card.querySelector<HTMLElement>(`[data-section-index="${live.sectionIndex}"]`)
+        : null;
+    if (marker) {
+      marker.scrollIntoView({ behavior: "smooth", block: "start" });
+    } else {
+      scrollToSong(live.serviceSongId);
+    }
+  }, [live.active, live.serviceSongId, live.sectionIndex, isLeading, following]);
+
+  // The session belongs to this page: leaving it ends the broadcast.
+  useEffect(() => {
+    if (!isLeading) return;
+    const serviceId = params.id;
+    return () => {
+      if (scrollTimer.current) clearTimeout(scrollTimer.current);
+      apiRequest("PUT", `/api/services/${serviceId}/live`, { active: false }).catch(() => {});
+    };
+  }, [isLeading, params.id]);
+
   const handleEditSong = (song: Song) => {
     setEditingSong({
       id: song.id,
@@ -320,6 +315,7 @@ export default function Repertoire() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <ServicePresence viewers={viewers} />
             <div className="flex items-center gap-2">
               <Label htmlFor="show-chords" className="text-sm cursor-pointer">
                 {showChords ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
@@ -334,16 +330,68 @@ export default function Repertoire() {
                 Acordes
               </Label>
             </div>
+            {canLead && (!live.active || isLeading) && (
+              <Button
+                variant={isLeading ? "default" : "outline"}
+                size="sm"
+                onClick={isLeading ? stopLive : startLive}
+                disabled={liveMutation.isPending}
+                data-testid="button-toggle-live"
+              >
+                <Radio className="mr-2 h-4 w-4" />
+                {isLeading ? "Encerrar ao vivo" : "Conduzir ao vivo"}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/services/${service.id}/export.pdf`} target="_blank" rel="noreferrer" data-testid="button-export-pdf">
+                <Printer className="mr-2 h-4 w-4" />
+                PDF
+              </a>
+            </Button>
             <span className="text-sm text-muted-foreground">{sortedSongs.length} músicas</span>
           </div>
         </div>
 
+        {live.active && !isLeading && (
+          <div className="flex items-center justify-between gap-2 mt-3 rounded-md border px-3 py-2 text-sm" data-testid="live-banner">
+            <div className="flex items-center gap-2">
+              <Radio className="h-4 w-4 text-destructive animate-pulse" />
+              <span>
+                Ao vivo: <span className="font-medium">{live.leaderName}</span>
+                {live.sectionLabel && <span className="text-muted-foreground"> · {live.sectionLabel}</span>}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {canLead && canTakeOver && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={startLive}
+                  disabled={liveMutation.isPending}
+                  data-testid="button-take-over-live"
+                >
+                  Assumir
+                </Button>
+              )}
+              <Button
+                variant={following ? "outline" : "default"}
+                size="sm"
+                onClick={() => setFollowing(!following)}
+                data-testid="button-toggle-follow"
+              >
+                {following ? <Unlink className="mr-2 h-4 w-4" /> : <Link2 className="mr-2 h-4 w-4" />}
+                {following ? "Desacoplar" : "Seguir lider"}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {sortedSongs.length > 0 && (
           <div className="flex gap-2 mt-3 overflow-x-auto pb-2">
             {sortedSongs.map((ss, index) => (
               <Button
                 key={ss.id}
-                variant="outline"
+                variant={live.active && live.serviceSongId === ss.id ? "default" : "outline"}
                 size="sm"
                 onClick={() => scrollToSong(ss.id)}
                 className="whitespace-nowrap"
@@ -356,7 +404,7 @@ export default function Repertoire() {
         )}
       </div>
 
-      <div ref={containerRef} className="flex-1 overflow-auto p-4 space-y-8">
+      <div ref={containerRef} onScroll={handleContainerScroll} className="flex-1 overflow-auto p-4 space-y-8">
         {sortedSongs.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
             <Music className="h-16 w-16 mb-4 opacity-50" />
@@ -409,7 +457,7 @@ export default function Repertoire() {
                           </SelectContent>
                         </Select>
                       </div>
-                      {canEdit && (
+                      {canEditSongs && (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, FileDown, Music } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import type { SongUsageReport, SongUsageStat } from "@shared/reports";
+
+const chartConfig = {
+  count: {
+    label: "Execucoes",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig;
+
+const PERIOD_OPTIONS = [
+  { value: "3", label: "Ultimos 3 meses" },
+  { value: "6", label: "Ultimos 6 meses" },
+  { value: "12", label: "Ultimos 12 meses" },
+];
+
+const UNUSED_OPTIONS = [
+  { value: "4", label: "4 semanas" },
+  { value: "8", label: "8 semanas" },
+  { value: "12", label: "12 semanas" },
+  { value: "26", label: "26 semanas" },
+];
+
+function monthsAgo(months: number): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() - (months - 1), 1);
+  return date.toISOString().split("T")[0];
+}
+
+function formatDate(date: string | null): string {
+  return date ? new Date(date + "T00:00:00").toLocaleDateString("pt-BR") : "Nunca";
+}
+
+function formatPeriod(period: string): string {
+  return new Date(period + "-01T00:00:00").toLocaleDateString("pt-BR", { month: "short", year: "2-digit" });
+}
+
+function SongUsageRow({ stat }: { stat: SongUsageStat }) {
+  return (
+    <div
+      className="flex items-center justify-between gap-3 rounded-md border p-3"
+      data-testid={`usage-song-${stat.songId}`}
+    >
+      <div className="flex flex-col gap-0.5">
+        <span className="font-medium">{stat.title}</span>
+        <span className="text-sm text-muted-foreground">
+          {stat.artist} - ultima vez: {formatDate(stat.lastPlayed)}
+        </span>
+      </div>
+      <div className="flex flex-wrap justify-end gap-1">
+        {stat.keysUsed.map((key) => (
+          <Badge key={key} variant="outline">
+            {key}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function Reports() {
+  const [months, setMonths] = useState("6");
+  const [unusedWeeks, setUnusedWeeks] = useState("8");
+  const [licenseFrom, setLicenseFrom] = useState(() => monthsAgo(6));
+  const [licenseTo, setLicenseTo] = useState(() => new Date().toISOString().split("T")[0]);
+
+  const params = { from: monthsAgo(Number(months)), unusedWeeks };
+
+  const { data: report, isLoading } = useQuery<SongUsageReport>({
+    queryKey: ["/api/reports/song-usage", params],
+    queryFn: async () => {
+      const search = new URLSearchParams(params);
+      const res = await apiRequest("GET", `/api/reports/song-usage?${search.toString()}`);
+      return res.json();
+    },
+  });
+
+  const topSongs = (report?.songs ?? []).filter((stat) => stat.timesPlayedInPeriod > 0).slice(0, 10);
+  const topSongsData = topSongs.map((stat) => ({ title: stat.title, count: stat.timesPlayedInPeriod }));
+  const periodData = (report?.periods ?? []).map((p) => ({ period: formatPeriod(p.period), count: p.count }));
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold">Relatorios</h1>
+        <p className="text-muted-foreground">
+          Acompanhe o uso das musicas e evite repetir sempre as mesmas
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-2">
+          <Label>Periodo</Label>
+          <Select value={months} onValueChange={setMonths}>
+            <SelectTrigger className="w-48" data-testid="select-report-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label>Sem tocar ha</Label>
+          <Select value={unusedWeeks} onValueChange={setUnusedWeeks}>
+            <SelectTrigger className="w-40" data-testid="select-report-unused-weeks">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNUSED_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Skeleton className="h-72 w-full" />
+          <Skeleton className="h-72 w-full" />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Execucoes por Mes</CardTitle>
+                <CardDescription>Musicas tocadas nos cultos de cada mes</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={periodData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Mais Tocadas</CardTitle>
+                <CardDescription>As 10 musicas mais repetidas no periodo</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {topSongsData.length === 0 ? (
+                  <div className="flex h-64 flex-col items-center justify-center">
+                    <BarChart3 className="h-12 w-12 text-muted-foreground/50" />
+                    <p className="mt-2 text-sm text-muted-foreground">Nenhuma musica tocada no periodo</p>
+                  </div>
+                ) : (
+                  <ChartContainer config={chartConfig} className="h-64 w-full">
+                    <BarChart data={topSongsData} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis
+                        type="category"
+                        dataKey="title"
+                        tickLine={false}
+                        axisLine={false}
+                        width={120}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Mais Tocadas - Detalhes</CardTitle>
+                <CardDescription>Ultima execucao e tons utilizados</CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col gap-2">
+                {topSongs.length === 0 ? (
+                  <p className="py-4 text-center text-sm text-muted-foreground">Sem dados no periodo</p>
+                ) : (
+                  topSongs.map((stat) => <SongUsageRow key={stat.songId} stat={stat} />)
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Sem Tocar</CardTitle>
+                <CardDescription>
+                  {report.unused.length} {report.unused.length === 1 ? "musica" : "musicas"} sem tocar ha{" "}
+                  {report.unusedWeeks} semanas ou mais
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col gap-2">
+                {report.unused.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-6">
+                    <Music className="h-10 w-10 text-muted-foreground/50" />
+                    <p className="mt-2 text-sm text-muted-foreground">Todas as musicas foram tocadas recentemente</p>
+                  </div>
+                ) : (
+                  report.unused.map((stat) => <SongUsageRow key={stat.songId} stat={stat} />)
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Relatorio de Licenciamento</CardTitle>
+          <CardDescription>
+            CSV com as musicas tocadas no periodo, dados CCLI e numero de execucoes
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="license-from">De</Label>
+            <Input
+              id="license-from"
+              type="date"
+              value={licenseFrom}
+              onChange={(e) => setLicenseFrom(e.target.value)}
+              data-testid="input-license-from"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="license-to">Ate</Label>
+            <Input
+              id="license-to"
+              type="date"
+              value={licenseTo}
+              onChange={(e) => setLicenseTo(e.target.value)}
+              data-testid="input-license-to"
+            />
+          </div>
+          <Button asChild disabled={!licenseFrom || !licenseTo || licenseFrom > licenseTo}>
+            <a
+              href={`/api/reports/copyright-usage.csv?from=${licenseFrom}&to=${licenseTo}`}
+              download
+              data-testid="button-export-license-csv"
+            >
+              <FileDown className="mr-2 h-4 w-4" />
+              Exportar CSV
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Download, KeyRound, LogOut, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, can } from "@/lib/auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { SecuritySettings, TwoFactorEnrollment, TwoFactorStatus } from "@shared/two-factor";
+
+type CodeAction = "disable" | "recovery-codes";
+
+function RecoveryCodesDialog({ codes, onClose }: { codes: string[] | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const text = (codes ?? []).join("\n");
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Codigos copiados" });
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "codigos-de-recuperacao.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={codes !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Codigos de recuperacao</DialogTitle>
+          <DialogDescription>
+            Guarde estes codigos em lugar seguro. Cada um entra uma unica vez se voce perder o celular. Eles nao serao
+            mostrados de novo.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4 font-mono text-sm" data-testid="recovery-codes">
+          {(codes ?? []).map((code) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copiar
+          </Button>
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            Baixar
+          </Button>
+          <Button onClick={onClose} data-testid="button-recovery-codes-done">
+            Ja guardei
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TwoFactorCard() {
+  const { toast } = useToast();
+  const { refetchUser } = useAuth();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [actionCode, setActionCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json();
+    },
+    onSuccess: (data: TwoFactorEnrollment) => {
+      setEnrollment(data);
+      setCode("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao iniciar configuracao", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Verificacao em duas etapas ativada!" });
+    },
+    onError: () => {
+      setCode("");
+      toast({ title: "Codigo invalido", description: "Confira o horario do celular e tente de novo.", variant: "destructive" });
+    },
+  });
+
+  const codeActionMutation = useMutation({
+    mutationFn: async ({ action, value }: { action: CodeAction; value: string }) => {
+      const res = await apiRequest("POST", `/api/auth/2fa/${action}`, { code: value });
+      return res.json();
+    },
+    onSuccess: (data, { action }) => {
+      setCodeAction(null);
+      setActionCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      if (action === "recovery-codes") {
+        setRecoveryCodes(data.recoveryCodes);
+      } else {
+        toast({ title: "Verificacao em duas etapas desativada" });
+      }
+    },
+    onError: (error: any) => {
+      setActionCode("");
+      toast({ title: "Nao foi possivel confirmar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The user flags (e.g. a pending required setup) only refresh after the codes were seen.
+  const handleRecoveryCodesClosed = () => {
+    setRecoveryCodes(null);
+    refetchUser();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldCheck className="h-4 w-4" />
+          Verificacao em duas etapas
+          {status?.enabled && <Badge variant="secondary">Ativa</Badge>}
+          {status?.required && <Badge variant="outline">Obrigatoria</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Alem da senha, o login pede um codigo do aplicativo autenticador (Google Authenticator, Authy, 1Password...)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {isLoading || !status ? (
+          <Skeleton className="h-24 w-full" />
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-remaining">
+              {status.recoveryCodesRemaining} {status.recoveryCodesRemaining === 1 ? "codigo" : "codigos"} de
+              recuperacao restantes
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setCodeAction("recovery-codes")} data-testid="button-regenerate-codes">
+                <KeyRound className="mr-2 h-4 w-4" />
+                Gerar novos codigos
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setCodeAction("disable")} data-testid="button-disable-2fa">
+                  <ShieldAlert className="mr-2 h-4 w-4" />
+                  Desativar
+                </Button>
+              )}
+            </div>
+          </>
+        ) : enrollment ? (
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start">
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="QR code para o aplicativo autenticador"
+              className="h-44 w-44 self-center rounded-md border bg-white p-2"
+              data-testid="img-two-factor-qr"
+            />
+            <div className="flex flex-1 flex-col gap-3">
+              <p className="text-sm">
+                1. Escaneie o QR code no aplicativo autenticador. Sem camera? Digite a chave:
+              </p>
+              <code className="break-all rounded-md bg-muted px-2 py-1 text-sm" data-testid="text-two-factor-secret">
+                {enrollment.secret}
+              </code>
+              <p className="text-sm">2. Digite o codigo de 6 digitos exibido pelo aplicativo:</p>
+              <TwoFactorCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={(value) => enableMutation.mutate(value)}
+                disabled={enableMutation.isPending}
+              />
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => enableMutation.mutate(code)}
+                  disabled={code.length !== 6 || enableMutation.isPending}
+                  data-testid="button-confirm-2fa"
+                >
+                  Confirmar
+                </Button>
+                <Button variant="ghost" onClick={() => setEnrollment(null)}>
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <Button
+            className="self-start"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            data-testid="button-enable-2fa"
+          >
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Ativar
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && setCodeAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{codeAction === "disable" ? "Desativar verificacao" : "Gerar novos codigos"}</DialogTitle>
+            <DialogDescription>
+              Confirme com um codigo do aplicativo autenticador ou um codigo de recuperacao.
+              {codeAction === "recovery-codes" && " Os codigos antigos deixam de funcionar."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (codeAction) codeActionMutation.mutate({ action: codeAction, value: actionCode });
+            }}
+            className="flex flex-col gap-2"
+          >
+            <Label htmlFor="two-factor-action-code">Codigo</Label>
+            <Input
+              id="two-factor-action-code"
+              value={actionCode}
+              onChange={(e) => setActionCode(e.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+              data-testid="input-two-factor-action-code"
+            />
+            <DialogFooter className="pt-2">
+              <Button type="button" variant="outline" onClick={() => setCodeAction(null)}>
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                variant={codeAction === "disable" ? "destructive" : "default"}
+                disabled={!actionCode.trim() || codeActionMutation.isPending}
+                data-testid="button-confirm-two-factor-action"
+              >
+                Confirmar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <RecoveryCodesDialog codes={recoveryCodes} onClose={handleRecoveryCodesClosed} />
+    </Card>
+  );
+}
+
+function SecurityPolicyCard() {
+  const { toast } = useToast();
+  const { refetchUser } = useAuth();
+
+  const { data: settings, isLoading } = useQuery<SecuritySettings>({
+    queryKey: ["/api/admin/security"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (requireTwoFactorForLeaders: boolean) => {
+      const res = await apiRequest("PUT", "/api/admin/security", { requireTwoFactorForLeaders });
+      return res.json();
+    },
+    onSuccess: (data: SecuritySettings) => {
+      queryClient.setQueryData(["/api/admin/security"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: data.requireTwoFactorForLeaders ? "2FA obrigatorio ativado" : "2FA obrigatorio desativado" });
+      refetchUser();
+    },
+    onError: () => {
+      toast({ title: "Erro ao salvar politica", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Politica da equipe</CardTitle>
+        <CardDescription>Regras de acesso aplicadas a todos os usuarios</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !settings ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="require-two-factor" className="flex flex-col gap-1">
+              <span>Exigir verificacao em duas etapas de admins e lideres</span>
+              <span className="text-sm font-normal text-muted-foreground">
+                Quem ainda nao ativou precisara configurar no proximo acesso
+              </span>
+            </Label>
+            <Switch
+              id="require-two-factor"
+              checked={settings.requireTwoFactorForLeaders}
+              onCheckedChange={(checked) => saveMutation.mutate(checked)}
+              disabled={saveMutation.isPending}
+              data-testid="switch-require-two-factor"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** With `required`, rendered on its own until a user covered by the 2FA policy enrolls. */
+export default function SecurityPage({ required = false }: { required?: boolean }) {
+  const { user, logout } = useAuth();
+
+  if (required) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="flex w-full max-w-2xl flex-col gap-4">
+          <div className="flex flex-col gap-2 text-center">
+            <h1 className="text-2xl font-semibold">Ative a verificacao em duas etapas</h1>
+            <p className="text-muted-foreground">
+              A igreja exige verificacao em duas etapas para admins e lideres. Configure para continuar.
+            </p>
+          </div>
+          <TwoFactorCard />
+          <Button variant="ghost" className="self-center" onClick={logout} data-testid="button-logout">
+            <LogOut className="mr-2 h-4 w-4" />
+            Sair
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold">Seguranca</h1>
+        <p className="text-muted-foreground">Proteja o acesso a sua conta</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <TwoFactorCard />
+        {can(user, "security.manage") && <SecurityPolicyCard />}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import {
   ChevronLeft,
   Eye,
   Pencil,
+  Repeat,
+  Monitor,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -37,27 +39,34 @@ import {
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth, can } from "@/lib/auth";
 import { SongViewer } from "@/components/song-viewer";
+import { ServiceTeam } from "@/components/service-team";
+import { ServicePresence } from "@/components/service-presence";
+import { useServiceSync } from "@/hooks/use-service-sync";
+import { usePresence } from "@/hooks/use-presence";
+import { ServiceTemplatesDialog } from "@/components/service-templates";
 import type { Service, Song, ServiceWithSongs, ServiceSongWithDetails, InsertService } from "@shared/schema";
-
-const KEYS_MAJOR = [
-  "C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B"
-];
-const KEYS_MINOR = [
-  "Cm", "C#m", "Dbm", "Dm", "D#m", "Ebm", "Em", "Fm", "F#m", "Gbm", "Gm", "G#m", "Abm", "Am", "A#m", "Bbm", "Bm"
-];
-const KEYS = [...KEYS_MAJOR, ...KEYS_MINOR];
+import { KEYS_MAJOR, KEYS_MINOR } from "@shared/chords";
+import {
+  describeSlots,
+  expandSlots,
+  type ServiceTemplate,
+  type InsertServiceWithTemplate,
+} from "@shared/templates";
 
 function ServicesList() {
   const [, setLocation] = useLocation();
   const searchParams = useSearch();
   const showNewModal = searchParams.includes("new=true");
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const [showAddModal, setShowAddModal] = useState(showNewModal);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showTemplatesModal, setShowTemplatesModal] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
-  const [formData, setFormData] = useState<InsertService>({
+  const [formData, setFormData] = useState<InsertServiceWithTemplate>({
     name: "",
     date: new Date().toISOString().split("T")[0],
     time: "10:00",
@@ -67,8 +76,13 @@ function ServicesList() {
     queryKey: ["/api/services"],
   });
 
+  const { data: templates = [] } = useQuery<ServiceTemplate[]>({
+    queryKey: ["/api/service-templates"],
+    enabled: can(user, "services.manage"),
+  });
+
   const createMutation = useMutation({
-    mutationFn: async (data: InsertService) => {
+    mutationFn: async (data: InsertServiceWithTemplate) => {
       const res = await apiRequest("POST", "/api/services", data);
       return res.json();
     },
@@ -79,8 +93,8 @@ function ServicesList() {
       setLocation("/services");
       toast({ title: "Culto criado com sucesso!" });
     },
-    onError: () => {
-      toast({ title: "Erro ao criar culto", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Erro ao criar culto", description: error.message, variant: "destructive" });
     },
   });
 
@@ -148,6 +162,16 @@ function ServicesList() {
     createMutation.mutate(formData);
   };
 
+  const handleTemplateChange = (templateId: string) => {
+    if (templateId === "none") {
+      setFormData({ ...formData, templateId: undefined });
+      return;
+    }
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+    setFormData({ ...formData, templateId, name: template.name, time: template.time });
+  };
+
   const handleCloseModal = () => {
     setShowAddModal(false);
     setFormData({ name: "", date: new Date().toISOString().split("T")[0], time: "10:00" });
@@ -175,6 +199,14 @@ function ServicesList() {
           <Plus className="mr-2 h-4 w-4" />
           Novo Culto
         </Button>
+        <Button
+          variant="outline"
+          onClick={() => setShowTemplatesModal(true)}
+          data-testid="button-service-templates"
+        >
+          <Repeat className="mr-2 h-4 w-4" />
+          Modelos
+        </Button>
       </div>
 
       {isLoading ? (
@@ -318,6 +350,24 @@ function ServicesList() {
             </DialogDescription>
           </DialogHeader>
           <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            {templates.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <Label>Modelo</Label>
+                <Select value={formData.templateId ?? "none"} onValueChange={handleTemplateChange}>
+                  <SelectTrigger data-testid="select-service-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sem modelo</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="flex flex-col gap-2">
               <Label htmlFor="name">Nome do Culto *</Label>
               <Input
@@ -422,6 +472,8 @@ function ServicesList() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <ServiceTemplatesDialog open={showTemplatesModal} onOpenChange={setShowTemplatesModal} />
     </div>
   );
 }
@@ -429,6 +481,7 @@ function ServicesList() {
 function ServiceDetail() {
   const params = useParams<{ id: string }>();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const [showAddSongModal, setShowAddSongModal] = useState(false);
   const [showEditServiceModal, setShowEditServiceModal] = useState(false);
@@ -441,10 +494,19 @@ function ServiceDetail() {
     queryKey: ["/api/services", params.id],
   });
 
+  useServiceSync(params.id);
+  const viewers = usePresence(params.id);
+
   const { data: allSongs = [] } = useQuery<Song[]>({
     queryKey: ["/api/songs"],
   });
 
+  const { data: template } = useQuery<ServiceTemplate | null>({
+    queryKey: ["/api/services", params.id, "template"],
+  });
+
+  const slotLabels = template ? expandSlots(template.slots) : [];
+
   const addSongMutation = useMutation({
     mutationFn: async ({ songId, transposedKey }: { songId: string; transposedKey?: string }) => {
       const res = await apiRequest("POST", `/api/services/${params.id}/songs`, {
@@ -455,6 +517,7 @@ function ServiceDetail() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/services", params.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/song-usage"] });
       setShowAddSongModal(false);
       toast({ title: "Musica adicionada ao culto!" });
     },
@@ -469,6 +532,7 @@ function ServiceDetail() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/services", params.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/song-usage"] });
       toast({ title: "Musica removida do culto!" });
     },
     onError: () => {
@@ -612,14 +676,25 @@ function ServiceDetail() {
             </p>
           </div>
         </div>
-        <Button
-          variant="outline"
-          onClick={handleOpenEditService}
-          data-testid="button-edit-service-detail"
-        >
-          <Pencil className="mr-2 h-4 w-4" />
-          Editar Culto
-        </Button>
+        <div className="flex items-center gap-2">
+          <ServicePresence viewers={viewers} />
+          {service.songs.length > 0 && can(user, "services.present") && (
+            <Button variant="outline" asChild data-testid="button-projection-operator">
+              <Link href={`/project/${service.id}/operator`}>
+                <Monitor className="mr-2 h-4 w-4" />
+                Projecao
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleOpenEditService}
+            data-testid="button-edit-service-detail"
+          >
+            <Pencil className="mr-2 h-4 w-4" />
+            Editar Culto
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -628,6 +703,7 @@ function ServiceDetail() {
             <CardTitle className="text-lg">Repertorio</CardTitle>
             <CardDescription>
               {service.songs.length} {service.songs.length === 1 ? "musica" : "musicas"} no culto
+              {template && template.slots.length > 0 && ` · Estrutura: ${describeSlots(template.slots)}`}
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
@@ -697,6 +773,11 @@ function ServiceDetail() {
                       {index + 1}
                     </div>
                     <div className="flex flex-1 flex-col gap-0.5">
+                      {slotLabels[index] && (
+                        <span className="text-xs font-medium uppercase text-muted-foreground">
+                          {slotLabels[index]}
+                        </span>
+                      )}
                       <span className="font-medium">{serviceSong.song.title}</span>
                       <span className="text-sm text-muted-foreground">
                         {serviceSong.song.artist}
@@ -756,6 +837,8 @@ function ServiceDetail() {
         </CardContent>
       </Card>
 
+      <ServiceTeam serviceId={service.id} />
+
       <Dialog open={showAddSongModal} onOpenChange={setShowAddSongModal}>
         <DialogContent>
           <DialogHeader>
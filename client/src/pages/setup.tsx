@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useSearch, useLocation } from "wouter";
+import { Rocket } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { DEFAULT_CHURCH_SETTINGS } from "@shared/church";
+import type { CompleteSetup } from "@shared/setup";
+
+export default function Setup() {
+  const { toast } = useToast();
+  const { refetchUser } = useAuth();
+  const [, setLocation] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const [form, setForm] = useState<CompleteSetup>({
+    token: params.get("token") ?? "",
+    name: "",
+    email: "",
+    password: "",
+    church: {
+      name: "",
+      primaryColor: DEFAULT_CHURCH_SETTINGS.primaryColor,
+      secondaryColor: DEFAULT_CHURCH_SETTINGS.secondaryColor,
+      logoUrl: "",
+    },
+  });
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const setupMutation = useMutation({
+    mutationFn: async (data: CompleteSetup) => {
+      const res = await apiRequest("POST", "/api/setup", data);
+      return res.json();
+    },
+    onSuccess: async () => {
+      toast({ title: "Configuracao concluida!", description: "Voce ja esta conectado como admin." });
+      setLocation("/", { replace: true });
+      queryClient.setQueryData(["/api/setup"], { required: false });
+      await refetchUser();
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro na configuracao", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.password.length < 8) {
+      toast({ title: "Senha deve ter no minimo 8 caracteres", variant: "destructive" });
+      return;
+    }
+
+    if (form.password !== confirmPassword) {
+      toast({ title: "As senhas nao conferem", variant: "destructive" });
+      return;
+    }
+
+    setupMutation.mutate(form);
+  };
+
+  const setChurch = (changes: Partial<CompleteSetup["church"]>) => setForm({ ...form, church: { ...form.church, ...changes } });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Rocket className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Configuracao inicial</CardTitle>
+          <CardDescription>
+            Crie a conta de admin e o perfil da igreja. O token de configuracao aparece no log do servidor.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="setup-token">Token de configuracao</Label>
+              <Input
+                id="setup-token"
+                value={form.token}
+                onChange={(e) => setForm({ ...form, token: e.target.value })}
+                autoComplete="off"
+                data-testid="input-setup-token"
+              />
+            </div>
+
+            <Separator />
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="setup-name">Seu nome</Label>
+              <Input
+                id="setup-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-setup-name"
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="setup-email">Email</Label>
+              <Input
+                id="setup-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                data-testid="input-setup-email"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="setup-password">Senha</Label>
+                <Input
+                  id="setup-password"
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  placeholder="Minimo 8 caracteres"
+                  data-testid="input-setup-password"
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="setup-confirm-password">Confirmar senha</Label>
+                <Input
+                  id="setup-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Repita a senha"
+                  data-testid="input-setup-confirm-password"
+                />
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="setup-church-name">Nome da igreja</Label>
+              <Input
+                id="setup-church-name"
+                value={form.church.name}
+                onChange={(e) => setChurch({ name: e.target.value })}
+                data-testid="input-setup-church-name"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="setup-primary-color">Cor principal</Label>
+                <Input
+                  id="setup-primary-color"
+                  type="color"
+                  className="p-1"
+                  value={form.church.primaryColor}
+                  onChange={(e) => setChurch({ primaryColor: e.target.value })}
+                  data-testid="input-setup-primary-color"
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="setup-secondary-color">Cor de destaque</Label>
+                <Input
+                  id="setup-secondary-color"
+                  type="color"
+                  className="p-1"
+                  value={form.church.secondaryColor}
+                  onChange={(e) => setChurch({ secondaryColor: e.target.value })}
+                  data-testid="input-setup-secondary-color"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">O logo e os demais detalhes podem ser ajustados depois em Igreja.</p>
+
+            <Button type="submit" disabled={setupMutation.isPending} data-testid="button-complete-setup">
+              {setupMutation.isPending ? "Configurando..." : "Concluir configuracao"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
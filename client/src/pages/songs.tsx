@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, useSearch } from "wouter";
-import { Music, Plus, Search, Eye, Trash2, Download, Loader2 } from "lucide-react";
+import { Music, Plus, Search, Eye, Trash2, Download, Loader2, Upload, FileDown, Copyright } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -28,95 +28,19 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth, can } from "@/lib/auth";
 import { SongViewer } from "@/components/song-viewer";
+import { SongCopyrightDialog } from "@/components/song-copyright";
 import type { Song, InsertSong } from "@shared/schema";
-
-const KEYS_MAJOR: string[] = [
-  "C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B"
-];
-const KEYS_MINOR: string[] = [
-  "Cm", "C#m", "Dbm", "Dm", "D#m", "Ebm", "Em", "Fm", "F#m", "Gbm", "Gm", "G#m", "Abm", "Am", "A#m", "Bbm", "Bm"
-];
-const KEYS: string[] = [...KEYS_MAJOR, ...KEYS_MINOR];
-
-const NOTE_MAP: { [key: string]: number } = {
-  "C": 0, "C#": 1, "Db": 1, "D": 2, "D#": 3, "Eb": 3, "E": 4, "F": 5,
-  "F#": 6, "Gb": 6, "G": 7, "G#": 8, "Ab": 8, "A": 9, "A#": 10, "Bb": 10, "B": 11
-};
-
-const NOTE_NAMES_SHARP = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-const NOTE_NAMES_FLAT = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
-
-function getKeyBase(key: string): string {
-  return key.replace("m", "");
-}
-
-function isMinor(key: string): boolean {
-  return key.endsWith("m");
-}
-
-function usesFlats(key: string): boolean {
-  const base = getKeyBase(key);
-  return base.includes("b");
-}
-
-function transposeNote(note: string, semitones: number, useFlats: boolean): string {
-  const noteRegex = /^([A-G])([#b]?)$/;
-  const match = note.match(noteRegex);
-  if (!match) return note;
-  
-  const [, root, modifier] = match;
-  const noteValue = NOTE_MAP[root + modifier] ?? NOTE_MAP[root] ?? 0;
-  const newValue = ((noteValue + semitones) % 12 + 12) % 12;
-  const noteNames = useFlats ? NOTE_NAMES_FLAT : NOTE_NAMES_SHARP;
-  return noteNames[newValue];
-}
-
-function transposeChordForSave(chord: string, semitones: number, useFlats: boolean): string {
-  const slashIndex = chord.indexOf("/");
-  if (slashIndex !== -1) {
-    const mainPart = chord.substring(0, slashIndex);
-    const bassPart = chord.substring(slashIndex + 1);
-    const mainTransposed = transposeChordForSave(mainPart, semitones, useFlats);
-    const bassTransposed = transposeNote(bassPart, semitones, useFlats);
-    return mainTransposed + "/" + bassTransposed;
-  }
-
-  const chordRegex = /^([A-G])([#b]?)(.*)$/;
-  const match = chord.match(chordRegex);
-  if (!match) return chord;
-  
-  const [, root, modifier, suffix] = match;
-  const noteValue = NOTE_MAP[root + modifier] ?? NOTE_MAP[root] ?? 0;
-  
-  const newValue = ((noteValue + semitones) % 12 + 12) % 12;
-  const noteNames = useFlats ? NOTE_NAMES_FLAT : NOTE_NAMES_SHARP;
-  return noteNames[newValue] + suffix;
-}
-
-function transposeContentForSave(content: string, semitones: number, useFlats: boolean): string {
-  if (semitones === 0) return content;
-  return content.replace(/\[([A-G][#b]?[^\]]*)\]/g, (match, chord) => {
-    return `[${transposeChordForSave(chord, semitones, useFlats)}]`;
-  });
-}
-
-function calculateSemitones(fromKey: string, toKey: string): number {
-  const fromBase = getKeyBase(fromKey);
-  const toBase = getKeyBase(toKey);
-  const fromValue = NOTE_MAP[fromBase];
-  const toValue = NOTE_MAP[toBase];
-  if (fromValue === undefined || toValue === undefined) return 0;
-  return (toValue - fromValue + 12) % 12;
-}
+import { CHORD_SOURCE, KEYS, KEYS_MAJOR, KEYS_MINOR, transposeContent } from "@shared/chords";
+import type { SongUsageReport } from "@shared/reports";
 
 function parseCifraclubContent(rawContent: string): { content: string; detectedKey: string } {
   const lines = rawContent.split("\n");
   const result: string[] = [];
   let detectedKey = "";
 
-  const chordSuffixPattern = "(?:m|M|maj|min|dim|aug|sus|add|7M|7m|7|9|11|13|6|5|4|2|\\+|\\-|°|ø|º|\\([0-9#b+\\-\\/]+\\))*(?:\\/[A-G][#b]?)?";
-  const singleChordPattern = `[A-G][#b]?${chordSuffixPattern}`;
+  const singleChordPattern = CHORD_SOURCE;
   const chordPattern = new RegExp(`^${singleChordPattern}(?:\\s+${singleChordPattern})*\\s*$`);
 
   for (let i = 0; i < lines.length; i++) {
@@ -202,13 +126,19 @@ function parseCifraclubContent(rawContent: string): { content: string; detectedK
 export default function Songs() {
   const [, setLocation] = useLocation();
   const searchParams = useSearch();
-  const showNewModal = searchParams.includes("new=true");
   const { toast } = useToast();
+  const { user } = useAuth();
+  // Without write access the library is browse-only: search, view and transpose locally.
+  const canWrite = can(user, "songs.write");
+  const canImport = can(user, "songs.import");
+  const showNewModal = canWrite && searchParams.includes("new=true");
 
   const [searchQuery, setSearchQuery] = useState("");
+  const [sortOrder, setSortOrder] = useState<"recent" | "title" | "least-used">("recent");
   const [showAddModal, setShowAddModal] = useState(showNewModal);
   const [selectedSong, setSelectedSong] = useState<Song | null>(null);
   const [showViewer, setShowViewer] = useState(false);
+  const [copyrightSong, setCopyrightSong] = useState<Song | null>(null);
   const [activeTab, setActiveTab] = useState<string>("manual");
   const [cifraclubMode, setCifraclubMode] = useState<"direct" | "search">("direct");
   const [cifraclubArtist, setCifraclubArtist] = useState("");
@@ -227,11 +157,21 @@ export default function Songs() {
   });
   const [detectedKey, setDetectedKey] = useState<string | null>(null);
   const [originalContent, setOriginalContent] = useState<string>("");
+  const chordProInputRef = useRef<HTMLInputElement>(null);
 
   const { data: songs = [], isLoading } = useQuery<Song[]>({
     queryKey: ["/api/songs"],
   });
 
+  const { data: usageReport } = useQuery<SongUsageReport>({
+    queryKey: ["/api/reports/song-usage"],
+    enabled: can(user, "reports.view"),
+  });
+
+  const lastPlayedBySong = new Map(
+    (usageReport?.songs ?? []).map((stat) => [stat.songId, stat.lastPlayed]),
+  );
+
   const createMutation = useMutation({
     mutationFn: async (data: InsertSong) => {
       const res = await apiRequest("POST", "/api/songs", data);
@@ -304,12 +244,50 @@ export default function Songs() {
     updateContentMutation.mutate({ id: songId, content: newContent });
   };
 
+  const importChordProMutation = useMutation({
+    mutationFn: async (files: { name: string; content: string }[]) => {
+      const res = await apiRequest("POST", "/api/songs/import/chordpro", { files });
+      return res.json() as Promise<{ imported: Song[]; errors: { name: string; error: string }[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/songs"] });
+      toast({
+        title: `${data.imported.length} musica(s) importada(s)`,
+        description: data.errors.length > 0
+          ? `Falha em: ${data.errors.map((e) => e.name).join(", ")}`
+          : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro ao importar arquivos ChordPro", variant: "destructive" });
+    },
+  });
+
+  const handleChordProFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (fileList.length === 0) return;
+
+    const files = await Promise.all(
+      fileList.map(async (file) => ({ name: file.name, content: await file.text() }))
+    );
+    importChordProMutation.mutate(files);
+  };
+
   const filteredSongs = songs.filter(
     (song) =>
       song.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       song.artist.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  if (sortOrder === "title") {
+    filteredSongs.sort((a, b) => a.title.localeCompare(b.title));
+  } else if (sortOrder === "least-used") {
+    filteredSongs.sort((a, b) =>
+      (lastPlayedBySong.get(a.id) ?? "").localeCompare(lastPlayedBySong.get(b.id) ?? "")
+    );
+  }
+
   const resetForm = () => {
     setFormData({ title: "", artist: "", originalKey: "C", content: "", source: "manual" });
     setCifraclubSearch("");
@@ -374,16 +352,12 @@ export default function Songs() {
 
   const handleKeyChange = (newKey: string) => {
     if (originalContent && detectedKey) {
-      const semitones = calculateSemitones(detectedKey, newKey);
-      const useFlats = usesFlats(newKey);
-      const transposedContent = transposeContentForSave(originalContent, semitones, useFlats);
+      const transposedContent = transposeContent(originalContent, detectedKey, newKey);
       setFormData({ ...formData, originalKey: newKey, content: transposedContent });
     } else if (formData.content.trim()) {
       setOriginalContent(formData.content);
       setDetectedKey(formData.originalKey);
-      const semitones = calculateSemitones(formData.originalKey, newKey);
-      const useFlats = usesFlats(newKey);
-      const transposedContent = transposeContentForSave(formData.content, semitones, useFlats);
+      const transposedContent = transposeContent(formData.content, formData.originalKey, newKey);
       setFormData({ ...formData, originalKey: newKey, content: transposedContent });
     } else {
       setFormData({ ...formData, originalKey: newKey });
@@ -468,7 +442,9 @@ export default function Songs() {
       <div className="flex flex-col gap-2">
         <h1 className="text-2xl font-semibold">Biblioteca de Musicas</h1>
         <p className="text-muted-foreground">
-          Gerencie todas as musicas disponiveis para os cultos
+          {canWrite
+            ? "Gerencie todas as musicas disponiveis para os cultos"
+            : "Consulte as musicas disponiveis e veja a cifra no tom que preferir"}
         </p>
       </div>
 
@@ -483,10 +459,48 @@ export default function Songs() {
             data-testid="input-search-songs"
           />
         </div>
-        <Button onClick={() => setShowAddModal(true)} data-testid="button-add-song">
-          <Plus className="mr-2 h-4 w-4" />
-          Adicionar Musica
-        </Button>
+        <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as typeof sortOrder)}>
+          <SelectTrigger className="w-52" data-testid="select-song-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="recent">Adicionadas recentemente</SelectItem>
+            <SelectItem value="title">Titulo (A-Z)</SelectItem>
+            <SelectItem value="least-used">Menos tocadas recentemente</SelectItem>
+          </SelectContent>
+        </Select>
+        {canWrite && (
+          <Button onClick={() => setShowAddModal(true)} data-testid="button-add-song">
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar Musica
+          </Button>
+        )}
+        {canImport && (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => chordProInputRef.current?.click()}
+              disabled={importChordProMutation.isPending}
+              data-testid="button-import-chordpro"
+            >
+              {importChordProMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Importar ChordPro
+            </Button>
+            <input
+              ref={chordProInputRef}
+              type="file"
+              accept=".cho,.chordpro,.chopro,.crd,.pro,.txt"
+              multiple
+              className="hidden"
+              onChange={handleChordProFiles}
+              data-testid="input-chordpro-files"
+            />
+          </>
+        )}
       </div>
 
       {isLoading ? (
@@ -505,9 +519,11 @@ export default function Songs() {
             <p className="text-sm text-muted-foreground">
               {searchQuery
                 ? "Tente buscar por outro termo"
-                : "Adicione sua primeira musica para comecar"}
+                : canWrite
+                  ? "Adicione sua primeira musica para comecar"
+                  : "Nenhuma musica foi cadastrada ainda"}
             </p>
-            {!searchQuery && (
+            {!searchQuery && canWrite && (
               <Button className="mt-4" onClick={() => setShowAddModal(true)}>
                 <Plus className="mr-2 h-4 w-4" />
                 Adicionar Musica
@@ -542,15 +558,48 @@ export default function Songs() {
                     <Eye className="mr-1 h-3 w-3" />
                     Ver
                   </Button>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => deleteMutation.mutate(song.id)}
-                    data-testid={`button-delete-song-${song.id}`}
-                  >
-                    <Trash2 className="h-3 w-3" />
+                  <Button size="sm" variant="ghost" asChild>
+                    <a
+                      href={`/api/songs/${song.id}/export.chordpro`}
+                      download
+                      data-testid={`button-export-song-${song.id}`}
+                    >
+                      <FileDown className="h-3 w-3" />
+                    </a>
                   </Button>
+                  {canWrite && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setCopyrightSong(song)}
+                        title="Direitos autorais"
+                        data-testid={`button-copyright-song-${song.id}`}
+                      >
+                        <Copyright className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(song.id)}
+                        data-testid={`button-delete-song-${song.id}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
                 </div>
+                {usageReport && (
+                  <Badge
+                    variant="outline"
+                    className="mt-2"
+                    data-testid={`badge-last-played-${song.id}`}
+                  >
+                    {lastPlayedBySong.get(song.id)
+                      ? `Tocada em ${new Date(lastPlayedBySong.get(song.id) + "T00:00:00").toLocaleDateString("pt-BR")}`
+                      : "Nunca tocada"}
+                  </Badge>
+                )}
                 {song.source && song.source !== "manual" && (
                   <p className="mt-2 text-xs text-muted-foreground">
                     Fonte: {song.source}
@@ -572,15 +621,17 @@ export default function Songs() {
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className={`grid w-full ${canImport ? "grid-cols-2" : "grid-cols-1"}`}>
               <TabsTrigger value="manual" data-testid="tab-manual">
                 <Plus className="mr-2 h-4 w-4" />
                 Manual
               </TabsTrigger>
-              <TabsTrigger value="cifraclub" data-testid="tab-cifraclub">
-                <Download className="mr-2 h-4 w-4" />
-                Cifraclub
-              </TabsTrigger>
+              {canImport && (
+                <TabsTrigger value="cifraclub" data-testid="tab-cifraclub">
+                  <Download className="mr-2 h-4 w-4" />
+                  Cifraclub
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="cifraclub" className="flex flex-col gap-4 mt-4">
@@ -811,11 +862,18 @@ export default function Songs() {
             setShowViewer(false);
             setSelectedSong(null);
           }}
-          onKeyChange={handleSongKeyChange}
-          onContentChange={handleSongContentChange}
-          canEdit={true}
+          onKeyChange={canWrite ? handleSongKeyChange : undefined}
+          onContentChange={canWrite ? handleSongContentChange : undefined}
+          onRestored={setSelectedSong}
+          canEdit={canWrite}
         />
       )}
+
+      <SongCopyrightDialog
+        song={copyrightSong}
+        open={!!copyrightSong}
+        onOpenChange={(open) => !open && setCopyrightSong(null)}
+      />
     </div>
   );
 }
@@ -6,7 +6,7 @@ if (!process.env.DATABASE_URL) {
 
 export default defineConfig({
   out: "./migrations",
-  schema: "./shared/schema.ts",
+  schema: ["./shared/schema.ts", "./shared/revisions.ts", "./shared/team.ts", "./shared/availability.ts", "./shared/templates.ts", "./shared/copyright.ts", "./shared/service-events.ts", "./shared/email.ts", "./shared/church.ts", "./shared/notifications.ts", "./shared/login-throttle.ts", "./shared/audit.ts", "./shared/two-factor.ts", "./shared/sessions.ts"],
   dialect: "postgresql",
   dbCredentials: {
     url: process.env.DATABASE_URL,
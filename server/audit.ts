@@ -0,0 +1,51 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditAction, AuditTargetType } from "@shared/audit";
+
+// Never copied into before/after snapshots.
+const SECRET_FIELDS = new Set([
+  "passwordHash",
+  "password",
+  "invitationToken",
+  "invitationExpires",
+  "passwordResetToken",
+  "passwordResetExpires",
+]);
+
+export type AuditEvent = {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  /** Defaults to the logged-in user; pass it for requests that authenticate themselves (login, invitation). */
+  actor?: { id: string; name: string } | null;
+};
+
+/** Plain JSON copy of a snapshot with dates serialized and secrets removed. */
+function toSnapshot(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value, (key, field) => (SECRET_FIELDS.has(key) ? undefined : field)));
+}
+
+/**
+ * Records who did what from where. Failures are logged and swallowed: the
+ * action already happened, and an audit hiccup shouldn't turn it into a 500.
+ */
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  const actor = event.actor !== undefined ? event.actor : req.user;
+  try {
+    await storage.createAuditEntry({
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId ?? null,
+      before: toSnapshot(event.before),
+      after: toSnapshot(event.after),
+      ip: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error(`[AUDIT] Failed to record ${event.action}:`, error);
+  }
+}
@@ -2,7 +2,9 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
+import { needsTwoFactorSetup } from "./two-factor";
 import type { User } from "@shared/schema";
+import type { UserRole } from "@shared/permissions";
 
 declare global {
   namespace Express {
@@ -11,7 +13,7 @@ declare global {
       name: string;
       email: string;
       passwordHash: string | null;
-      role: "admin" | "lider" | "membro";
+      role: UserRole;
       status: "pending" | "active" | "blocked";
       invitationToken: string | null;
       invitationExpires: Date | null;
@@ -62,32 +64,32 @@ passport.serializeUser((user: User, done) => {
 passport.deserializeUser(async (id: string, done) => {
   try {
     const user = await storage.getUser(id);
-    done(null, user || null);
+    // A blocked account loses access on its next request even if a session survived.
+    done(null, user && user.status !== "blocked" ? user : null);
   } catch (error) {
     done(error);
   }
 });
 
-export async function hashPassword(password: string): Promise<string> {
-  return bcrypt.hash(password, 10);
-}
+export type AccessDenial = { error: string; code?: "two-factor-setup-required" };
 
-export async function seedAdminUser() {
-  const adminEmail = "willianlealusa@gmail.com";
-  const adminPassword = "D7i9G6i8";
-  
-  const existingAdmin = await storage.getUserByEmail(adminEmail);
-  if (!existingAdmin) {
-    const passwordHash = await hashPassword(adminPassword);
-    await storage.createUserWithPassword({
-      name: "Admin",
-      email: adminEmail,
-      role: "admin",
-      passwordHash,
-      status: "active",
-    });
-    console.log("Admin user created successfully");
+/**
+ * Why a signed-in user can't use the app right now, or null when they can.
+ * The HTTP routes and the sockets both go through this, so a rule added here
+ * applies to both.
+ */
+export async function getAccessDenial(user: Express.User): Promise<AccessDenial | null> {
+  if (user.status === "blocked") {
+    return { error: "Sua conta foi bloqueada. Entre em contato com o lider." };
+  }
+  if (await needsTwoFactorSetup(user)) {
+    return { error: "Ative a verificacao em duas etapas para continuar", code: "two-factor-setup-required" };
   }
+  return null;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10);
 }
 
 export default passport;
@@ -0,0 +1,188 @@
+import { KEYS, isChordToken, parseChord, parseKey } from "@shared/chords";
+
+export interface ChordProSong {
+  title: string;
+  artist: string;
+  originalKey: string;
+  content: string;
+}
+
+type SectionKind = "chorus" | "verse" | "bridge" | "tab";
+
+const SECTION_LABELS: Record<SectionKind, string> = {
+  chorus: "Refrão",
+  verse: "Verso",
+  bridge: "Ponte",
+  tab: "Tab",
+};
+
+const START_DIRECTIVES: Record<string, SectionKind> = {
+  soc: "chorus",
+  start_of_chorus: "chorus",
+  sov: "verse",
+  start_of_verse: "verse",
+  sob: "bridge",
+  start_of_bridge: "bridge",
+  sot: "tab",
+  start_of_tab: "tab",
+};
+
+const END_DIRECTIVES = new Set([
+  "eoc", "end_of_chorus", "eov", "end_of_verse", "eob", "end_of_bridge", "eot", "end_of_tab",
+]);
+
+// First word of a section marker in songs.content, mapped back to ChordPro environments.
+const MARKER_SECTIONS: Record<string, SectionKind> = {
+  "refrão": "chorus",
+  "refrao": "chorus",
+  "coro": "chorus",
+  "chorus": "chorus",
+  "verso": "verse",
+  "verse": "verse",
+  "ponte": "bridge",
+  "bridge": "bridge",
+  "tab": "tab",
+};
+
+const COMMENT_DIRECTIVES = new Set(["comment", "c", "comment_italic", "ci", "comment_box", "cb"]);
+
+const SECTION_MARKER_REGEX = /^\[([^\]]+)\]$/;
+const DIRECTIVE_REGEX = /^\{\s*([a-z_]+)\s*(?::\s*(.*?))?\s*\}$/i;
+
+function normalizeKey(key: string | undefined): string | undefined {
+  if (!key) return undefined;
+  const parsed = parseKey(key.replace(/\s+/g, "").replace(/min$|minor$/i, "m"));
+  if (!parsed) return undefined;
+  const normalized = parsed.tonic + (parsed.minor ? "m" : "");
+  return KEYS.includes(normalized) ? normalized : undefined;
+}
+
+function detectKey(content: string): string | undefined {
+  const firstChord = content.match(/\[([A-G][#b]?[^\]]*)\]/);
+  if (!firstChord) return undefined;
+  const chord = parseChord(firstChord[1]);
+  if (!chord) return undefined;
+  return normalizeKey(chord.root + (chord.quality === "minor" ? "m" : ""));
+}
+
+/**
+ * Section a marker label belongs to. "Verse 2" or "Refrão final" are read
+ * from their first word; labels that don't name their section are stored as
+ * "Refrão: Coro final", so the environment survives the trip through content.
+ */
+function parseMarkerLabel(marker: string): { kind: SectionKind | null; label: string } {
+  const prefixed = marker.match(/^([^:]+):\s*(.+)$/);
+  const prefixKind = prefixed ? MARKER_SECTIONS[prefixed[1].trim().toLowerCase()] : undefined;
+  if (prefixed && prefixKind) return { kind: prefixKind, label: prefixed[2].trim() };
+  const firstWord = marker.split(/[\s\d-]+/)[0].toLowerCase();
+  return { kind: MARKER_SECTIONS[firstWord] ?? null, label: marker };
+}
+
+function toSectionMarker(kind: SectionKind, label: string): string {
+  if (!label) return `[${SECTION_LABELS[kind]}]`;
+  return parseMarkerLabel(label).kind === kind ? `[${label}]` : `[${SECTION_LABELS[kind]}: ${label}]`;
+}
+
+function isSectionMarker(line: string): string | undefined {
+  const match = line.trim().match(SECTION_MARKER_REGEX);
+  if (!match) return undefined;
+  const label = match[1].trim();
+  // Chords like [G] or [Am7] are not section markers.
+  if (isChordToken(label) && !MARKER_SECTIONS[label.toLowerCase()]) return undefined;
+  return label;
+}
+
+function pushLine(lines: string[], line: string) {
+  // Sections are separated by a single blank line however the source spaced them.
+  if (line === "" && (lines.length === 0 || lines[lines.length - 1] === "")) return;
+  lines.push(line);
+}
+
+export function parseChordPro(source: string): Partial<ChordProSong> & { content: string } {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const body: string[] = [];
+  let title: string | undefined;
+  let artist: string | undefined;
+  let originalKey: string | undefined;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+
+    if (line.trimStart().startsWith("#")) continue;
+
+    const directive = line.trim().match(DIRECTIVE_REGEX);
+    if (directive) {
+      const name = directive[1].toLowerCase();
+      const value = directive[2]?.trim() ?? "";
+
+      if (name === "title" || name === "t") {
+        title = value;
+      } else if (name === "artist" || name === "subtitle" || name === "st") {
+        artist = artist || value;
+      } else if (name === "key") {
+        originalKey = normalizeKey(value);
+      } else if (START_DIRECTIVES[name]) {
+        body.push(toSectionMarker(START_DIRECTIVES[name], value));
+      } else if (END_DIRECTIVES.has(name)) {
+        pushLine(body, "");
+      } else if (COMMENT_DIRECTIVES.has(name) && value && !isChordToken(value)) {
+        // Comments label a part of the song ("Intro", "2x"), so they become markers rather than lyrics.
+        body.push(`[${value}]`);
+      }
+      continue;
+    }
+
+    pushLine(body, line.replace(/\[\*[^\]]*\]/g, ""));
+  }
+
+  while (body.length > 0 && body[body.length - 1] === "") body.pop();
+
+  const content = body.join("\n");
+  return {
+    title: title || undefined,
+    artist: artist || undefined,
+    originalKey: originalKey ?? detectKey(content),
+    content,
+  };
+}
+
+export function toChordPro(song: ChordProSong): string {
+  const output = [
+    `{title: ${song.title}}`,
+    `{artist: ${song.artist}}`,
+    `{key: ${song.originalKey}}`,
+    "",
+  ];
+  let openSection: SectionKind | null = null;
+
+  const closeSection = () => {
+    if (!openSection) return;
+    output.push(`{end_of_${openSection}}`);
+    openSection = null;
+  };
+
+  for (const line of song.content.split("\n")) {
+    const marker = isSectionMarker(line);
+    if (marker) {
+      closeSection();
+      const { kind, label } = parseMarkerLabel(marker);
+      if (kind) {
+        output.push(label === SECTION_LABELS[kind] ? `{start_of_${kind}}` : `{start_of_${kind}: ${label}}`);
+        openSection = kind;
+      } else {
+        output.push(`{comment: ${marker}}`);
+      }
+      continue;
+    }
+    if (line.trim() === "") {
+      closeSection();
+      pushLine(output, "");
+      continue;
+    }
+    output.push(line);
+  }
+
+  closeSection();
+  while (output[output.length - 1] === "") output.pop();
+  return output.join("\n") + "\n";
+}
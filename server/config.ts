@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { isValidTimeZone } from "./timezone";
+import { resolveEmailTransportName } from "./email-transport";
+
+const MIN_SESSION_SECRET_LENGTH = 32;
+
+// Values that have shipped as fallbacks or show up in tutorials; never acceptable in production.
+const INSECURE_SESSION_SECRETS = new Set(["louvor-app-secret-key", "secret", "changeme", "keyboard cat"]);
+
+export type AppConfig = {
+  isProduction: boolean;
+  sessionSecret: string;
+};
+
+/** Problems that make the configuration unsafe to run in production. */
+export function findConfigProblems(env: NodeJS.ProcessEnv): string[] {
+  const problems: string[] = [];
+  const secret = env.SESSION_SECRET;
+
+  if (!env.DATABASE_URL) {
+    problems.push("DATABASE_URL nao definido");
+  }
+  if (!secret) {
+    problems.push("SESSION_SECRET nao definido");
+  } else if (INSECURE_SESSION_SECRETS.has(secret)) {
+    problems.push("SESSION_SECRET usa um valor padrao conhecido");
+  } else if (secret.length < MIN_SESSION_SECRET_LENGTH) {
+    problems.push(`SESSION_SECRET deve ter pelo menos ${MIN_SESSION_SECRET_LENGTH} caracteres`);
+  }
+
+  if (env.APP_TIMEZONE && !isValidTimeZone(env.APP_TIMEZONE)) {
+    problems.push(`APP_TIMEZONE invalido: ${env.APP_TIMEZONE}`);
+  }
+
+  const emailTransport = resolveEmailTransportName(env);
+  if (!emailTransport) {
+    problems.push(`EMAIL_TRANSPORT desconhecido: ${env.EMAIL_TRANSPORT} (use resend, smtp ou file)`);
+  } else if (emailTransport === "file" && !env.EMAIL_TRANSPORT && env.NODE_ENV === "production") {
+    // Without a sender, mail would only be written to disk and still count as sent.
+    problems.push("Nenhum envio de email configurado (SMTP_HOST, RESEND_API_KEY ou EMAIL_TRANSPORT=file)");
+  }
+
+  return problems;
+}
+
+/**
+ * Reads and checks the environment at startup. Production refuses to boot
+ * with any problem; in development they are only logged, and a missing
+ * session secret is replaced by a random one (sessions end on restart).
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const isProduction = env.NODE_ENV === "production";
+  const problems = findConfigProblems(env);
+
+  if (isProduction && problems.length > 0) {
+    throw new Error(`Configuracao insegura para producao:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  problems.forEach((problem) => console.warn(`[CONFIG] ${problem}`));
+  if (!env.SESSION_SECRET) {
+    console.warn("[CONFIG] Usando SESSION_SECRET aleatorio; as sessoes terminam ao reiniciar o servidor");
+  }
+
+  return {
+    isProduction,
+    sessionSecret: env.SESSION_SECRET || crypto.randomBytes(32).toString("hex"),
+  };
+}
@@ -1,6 +1,21 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import pg from "pg";
-import * as schema from "@shared/schema";
+import * as baseSchema from "@shared/schema";
+import * as revisionsSchema from "@shared/revisions";
+import * as teamSchema from "@shared/team";
+import * as availabilitySchema from "@shared/availability";
+import * as templatesSchema from "@shared/templates";
+import * as copyrightSchema from "@shared/copyright";
+import * as serviceEventsSchema from "@shared/service-events";
+import * as emailSchema from "@shared/email";
+import * as churchSchema from "@shared/church";
+import * as notificationsSchema from "@shared/notifications";
+import * as loginThrottleSchema from "@shared/login-throttle";
+import * as auditSchema from "@shared/audit";
+import * as twoFactorSchema from "@shared/two-factor";
+import * as sessionsSchema from "@shared/sessions";
+
+const schema = { ...baseSchema, ...revisionsSchema, ...teamSchema, ...availabilitySchema, ...templatesSchema, ...copyrightSchema, ...serviceEventsSchema, ...emailSchema, ...churchSchema, ...notificationsSchema, ...loginThrottleSchema, ...auditSchema, ...twoFactorSchema, ...sessionsSchema };
 
 const { Pool } = pg;
 
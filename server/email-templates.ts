@@ -0,0 +1,218 @@
+import type { ChurchSettings } from "@shared/church";
+
+export type Branding = Pick<ChurchSettings, "name" | "primaryColor" | "secondaryColor" | "logoUrl">;
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+class SafeHtml {
+  constructor(readonly value: string) {}
+  toString() {
+    return this.value;
+  }
+}
+
+function interpolate(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(interpolate).join("");
+  return escapeHtml(value);
+}
+
+/**
+ * Tagged template for email markup: every interpolated value is escaped
+ * unless it is itself an `html` fragment. Arrays of fragments are joined.
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  let result = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    result += interpolate(values[i]) + strings[i + 1];
+  }
+  return new SafeHtml(result);
+}
+
+function button(branding: Branding, href: string, label: string): SafeHtml {
+  return html`
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${href}" style="background-color: ${branding.primaryColor}; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">${label}</a>
+    </div>`;
+}
+
+function layout(branding: Branding, content: { subject: string; title: string; body: SafeHtml; text: string }): RenderedEmail {
+  const header = branding.logoUrl
+    ? html`<img src="${branding.logoUrl}" alt="${branding.name}" style="max-height: 60px; margin-bottom: 16px;" />`
+    : html`<p style="color: ${branding.primaryColor}; font-size: 18px; font-weight: bold; margin: 0 0 16px;">${branding.name}</p>`;
+
+  const page = html`
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      ${header}
+      <h2>${content.title}</h2>
+      ${content.body}
+      <br/>
+      <p>Equipe ${branding.name}</p>
+    </div>`;
+
+  return {
+    subject: `${branding.name} - ${content.subject}`,
+    html: page.value,
+    text: `${content.title}\n\n${content.text.trim()}\n\n--\nEquipe ${branding.name}\n`,
+  };
+}
+
+export function formatServiceDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("pt-BR", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export type ServiceEmailInfo = {
+  name: string;
+  date: string;
+  time: string;
+  link: string;
+};
+
+export function provisionalPasswordEmail(
+  branding: Branding,
+  data: { userName: string; password: string }
+): RenderedEmail {
+  return layout(branding, {
+    subject: "Sua senha provisoria",
+    title: `Bem-vindo ao ${branding.name}!`,
+    body: html`
+      <p>Ola ${data.userName},</p>
+      <p>Sua conta foi criada com sucesso. Use a senha provisoria abaixo para fazer seu primeiro login:</p>
+      <div style="background-color: ${branding.secondaryColor}; padding: 20px; text-align: center; margin: 20px 0; border-radius: 8px;">
+        <h1 style="color: ${branding.primaryColor}; letter-spacing: 4px; margin: 0;">${data.password}</h1>
+      </div>
+      <p><strong>Importante:</strong> Ao fazer login pela primeira vez, voce sera solicitado a criar uma nova senha.</p>
+      <p>Sua nova senha deve ter no minimo 8 caracteres.</p>`,
+    text: `
+Ola ${data.userName},
+
+Sua conta foi criada com sucesso. Use a senha provisoria abaixo para fazer seu primeiro login:
+
+    ${data.password}
+
+Importante: Ao fazer login pela primeira vez, voce sera solicitado a criar uma nova senha.
+Sua nova senha deve ter no minimo 8 caracteres.`,
+  });
+}
+
+export function passwordResetEmail(
+  branding: Branding,
+  data: { userName: string; resetLink: string }
+): RenderedEmail {
+  return layout(branding, {
+    subject: "Redefinir senha",
+    title: "Redefinir sua senha",
+    body: html`
+      <p>Ola ${data.userName},</p>
+      <p>Recebemos uma solicitacao para redefinir sua senha. Clique no botao abaixo para criar uma nova senha:</p>
+      ${button(branding, data.resetLink, "Redefinir Senha")}
+      <p>Se voce nao solicitou a redefinicao de senha, ignore este email.</p>
+      <p>Este link expira em 1 hora.</p>`,
+    text: `
+Ola ${data.userName},
+
+Recebemos uma solicitacao para redefinir sua senha. Acesse o link abaixo para criar uma nova senha:
+
+${data.resetLink}
+
+Se voce nao solicitou a redefinicao de senha, ignore este email.
+Este link expira em 1 hora.`,
+  });
+}
+
+export function serviceReminderEmail(
+  branding: Branding,
+  data: {
+    userName: string;
+    service: ServiceEmailInfo;
+    songs: { title: string; artist: string; key: string }[];
+  }
+): RenderedEmail {
+  const when = `${formatServiceDate(data.service.date)} as ${data.service.time}`;
+  const songRows = data.songs.map(
+    (song, index) => html`
+      <tr>
+        <td style="padding: 6px 8px; color: #888;">${index + 1}</td>
+        <td style="padding: 6px 8px;">${song.title}<br/><span style="color: #888; font-size: 12px;">${song.artist}</span></td>
+        <td style="padding: 6px 8px; font-weight: bold; color: ${branding.primaryColor};">${song.key}</td>
+      </tr>`
+  );
+
+  return layout(branding, {
+    subject: `Lembrete: ${data.service.name}`,
+    title: data.service.name,
+    body: html`
+      <p>Ola ${data.userName},</p>
+      <p>Lembrete do culto de <strong>${when}</strong>.</p>
+      ${
+        data.songs.length > 0
+          ? html`
+            <table style="width: 100%; border-collapse: collapse; background-color: ${branding.secondaryColor}; border-radius: 8px;">
+              ${songRows}
+            </table>`
+          : html`<p>O repertorio ainda nao foi definido.</p>`
+      }
+      ${button(branding, data.service.link, "Ver Repertorio")}`,
+    text: `
+Ola ${data.userName},
+
+Lembrete do culto de ${when}.
+
+${
+  data.songs.length > 0
+    ? data.songs.map((song, index) => `${index + 1}. ${song.title} - ${song.artist} (${song.key})`).join("\n")
+    : "O repertorio ainda nao foi definido."
+}
+
+Repertorio: ${data.service.link}`,
+  });
+}
+
+export function scheduleNotificationEmail(
+  branding: Branding,
+  data: { userName: string; service: ServiceEmailInfo; positions: string[] }
+): RenderedEmail {
+  const when = `${formatServiceDate(data.service.date)} as ${data.service.time}`;
+  const positions = data.positions.join(", ");
+
+  return layout(branding, {
+    subject: `Voce foi escalado: ${data.service.name}`,
+    title: "Nova escala",
+    body: html`
+      <p>Ola ${data.userName},</p>
+      <p>Voce foi escalado para <strong>${data.service.name}</strong> em ${when}.</p>
+      <div style="background-color: ${branding.secondaryColor}; padding: 16px; margin: 20px 0; border-radius: 8px;">
+        <strong>Posicao:</strong> ${positions}
+      </div>
+      <p>Se nao puder participar, avise seu lider o quanto antes.</p>
+      ${button(branding, data.service.link, "Ver Repertorio")}`,
+    text: `
+Ola ${data.userName},
+
+Voce foi escalado para ${data.service.name} em ${when}.
+Posicao: ${positions}
+
+Se nao puder participar, avise seu lider o quanto antes.
+
+Repertorio: ${data.service.link}`,
+  });
+}
@@ -0,0 +1,140 @@
+import fs from "fs/promises";
+import path from "path";
+import { Resend } from "resend";
+import nodemailer from "nodemailer";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string | null;
+};
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Louvor App <no-reply@localhost>";
+
+async function getReplitResendCredentials() {
+  const hostname = process.env.REPLIT_CONNECTORS_HOSTNAME;
+  const xReplitToken = process.env.REPL_IDENTITY
+    ? "repl " + process.env.REPL_IDENTITY
+    : process.env.WEB_REPL_RENEWAL
+    ? "depl " + process.env.WEB_REPL_RENEWAL
+    : null;
+
+  if (!xReplitToken) {
+    throw new Error("X_REPLIT_TOKEN not found for repl/depl");
+  }
+
+  const connectionSettings = await fetch(
+    "https://" + hostname + "/api/v2/connection?include_secrets=true&connector_names=resend",
+    {
+      headers: {
+        Accept: "application/json",
+        X_REPLIT_TOKEN: xReplitToken,
+      },
+    }
+  ).then((res) => res.json()).then((data) => data.items?.[0]);
+
+  if (!connectionSettings || !connectionSettings.settings.api_key) {
+    throw new Error("Resend not connected");
+  }
+  return { apiKey: connectionSettings.settings.api_key as string, fromEmail: connectionSettings.settings.from_email as string };
+}
+
+/**
+ * Sends through Resend with RESEND_API_KEY/EMAIL_FROM, falling back to the
+ * Replit connector credentials (fetched per send, as they may rotate).
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = "resend";
+
+  async send(message: EmailMessage): Promise<void> {
+    const { apiKey, fromEmail } = process.env.RESEND_API_KEY
+      ? { apiKey: process.env.RESEND_API_KEY, fromEmail: process.env.EMAIL_FROM || DEFAULT_FROM }
+      : await getReplitResendCredentials();
+
+    const { error } = await new Resend(apiKey).emails.send({
+      from: fromEmail,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text ?? undefined,
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: process.env.EMAIL_FROM || DEFAULT_FROM,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text ?? undefined,
+    });
+  }
+}
+
+/** Development/test transport: writes each message to a JSON file instead of sending it. */
+export class FileTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private dir = process.env.EMAIL_OUTBOX_DIR || "email-outbox") {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const file = path.join(this.dir, `${stamp}-${safeTo}.json`);
+    await fs.writeFile(file, JSON.stringify({ from: process.env.EMAIL_FROM || DEFAULT_FROM, ...message }, null, 2));
+    console.log(`[EMAIL] Wrote ${file}`);
+  }
+}
+
+export type EmailTransportName = "resend" | "smtp" | "file";
+
+/**
+ * EMAIL_TRANSPORT=resend|smtp|file picks the transport explicitly; otherwise
+ * SMTP_HOST selects SMTP, Resend credentials select Resend, and anything else
+ * falls back to writing files. Null for an unknown EMAIL_TRANSPORT.
+ */
+export function resolveEmailTransportName(env: NodeJS.ProcessEnv = process.env): EmailTransportName | null {
+  const configured = env.EMAIL_TRANSPORT;
+  if (configured === "smtp" || (!configured && env.SMTP_HOST)) return "smtp";
+  if (configured === "resend" || (!configured && (env.RESEND_API_KEY || env.REPLIT_CONNECTORS_HOSTNAME))) return "resend";
+  if (!configured || configured === "file") return "file";
+  return null;
+}
+
+export function createEmailTransport(): EmailTransport {
+  switch (resolveEmailTransportName()) {
+    case "smtp":
+      return new SmtpTransport();
+    case "resend":
+      return new ResendTransport();
+    case "file":
+      return new FileTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${process.env.EMAIL_TRANSPORT}" (expected resend, smtp or file)`);
+  }
+}
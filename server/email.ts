@@ -1,75 +1,169 @@
-import { Resend } from 'resend';
+import { storage } from './storage';
+import { createEmailTransport, type EmailMessage, type EmailTransport } from './email-transport';
+import {
+  provisionalPasswordEmail,
+  passwordResetEmail,
+  serviceReminderEmail,
+  scheduleNotificationEmail,
+  type Branding,
+  type RenderedEmail,
+  type ServiceEmailInfo,
+} from './email-templates';
+import { CREDENTIAL_EMAIL_KINDS, REDACTED_EMAIL_BODY, type OutboxEmail, type EmailKind } from '@shared/email';
 
-let connectionSettings: any;
+const MAX_ATTEMPTS = 5;
+const OUTBOX_INTERVAL_MS = 60 * 1000;
 
-async function getCredentials() {
-  const hostname = process.env.REPLIT_CONNECTORS_HOSTNAME;
-  const xReplitToken = process.env.REPL_IDENTITY 
-    ? 'repl ' + process.env.REPL_IDENTITY 
-    : process.env.WEB_REPL_RENEWAL 
-    ? 'depl ' + process.env.WEB_REPL_RENEWAL 
-    : null;
+let transport: EmailTransport | null = null;
 
-  if (!xReplitToken) {
-    throw new Error('X_REPLIT_TOKEN not found for repl/depl');
+function getTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+    console.log(`[EMAIL] Using ${transport.name} transport`);
   }
+  return transport;
+}
+
+// 1, 2, 4, 8 minutes between attempts.
+function retryDelay(attempts: number): number {
+  return OUTBOX_INTERVAL_MS * 2 ** (attempts - 1);
+}
+
+function isCredentialEmail(email: Pick<OutboxEmail, 'kind'>): boolean {
+  return !!email.kind && CREDENTIAL_EMAIL_KINDS.includes(email.kind);
+}
+
+// Once nothing will send it again, a credential email keeps no copy of the secret.
+function redactedBody(email: OutboxEmail) {
+  return isCredentialEmail(email) ? { html: REDACTED_EMAIL_BODY, text: null } : {};
+}
+
+async function deliver(email: OutboxEmail): Promise<boolean> {
+  const attempts = email.attempts + 1;
+  try {
+    await getTransport().send(email);
+    await storage.updateOutboxEmail(email.id, { status: 'sent', attempts, lastError: null, sentAt: new Date(), ...redactedBody(email) });
+    return true;
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const failed = attempts >= MAX_ATTEMPTS;
+    console.error(`[EMAIL] Attempt ${attempts} to ${email.to} failed:`, message);
+    await storage.updateOutboxEmail(email.id, {
+      status: failed ? 'failed' : 'queued',
+      attempts,
+      lastError: message,
+      nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+      ...(failed ? redactedBody(email) : {}),
+    });
+    return false;
+  }
+}
 
-  connectionSettings = await fetch(
-    'https://' + hostname + '/api/v2/connection?include_secrets=true&connector_names=resend',
-    {
-      headers: {
-        'Accept': 'application/json',
-        'X_REPLIT_TOKEN': xReplitToken
-      }
+/**
+ * Stores the message in the outbox and tries to send it right away. Returns
+ * whether that first attempt succeeded; failures are retried by the outbox worker.
+ */
+export async function queueEmail(
+  message: EmailMessage,
+  meta: { userId?: string | null; kind?: EmailKind | null } = {}
+): Promise<boolean> {
+  const email = await storage.createOutboxEmail({
+    userId: meta.userId ?? null,
+    kind: meta.kind ?? null,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text ?? null,
+    // Keep the worker away from it while the immediate attempt runs.
+    nextAttemptAt: new Date(Date.now() + OUTBOX_INTERVAL_MS),
+  });
+  return deliver(email);
+}
+
+let processing = false;
+
+export async function processOutbox() {
+  if (processing) return;
+  processing = true;
+  try {
+    const due = await storage.getDueOutboxEmails(new Date(), 20);
+    for (const email of due) {
+      await deliver(email);
     }
-  ).then(res => res.json()).then(data => data.items?.[0]);
+  } catch (error: any) {
+    console.error('[EMAIL] Error processing outbox:', error?.message || error);
+  } finally {
+    processing = false;
+  }
+}
 
-  if (!connectionSettings || (!connectionSettings.settings.api_key)) {
-    throw new Error('Resend not connected');
+/**
+ * Sends a stored email again as a new outbox entry, keeping the original for
+ * history. Credential emails can't be resent as they were: the routes issue a
+ * new password or reset link instead.
+ */
+export async function resendOutboxEmail(email: OutboxEmail): Promise<boolean> {
+  if (isCredentialEmail(email)) {
+    throw new Error(`Email ${email.id} carries a credential and can't be resent as is`);
   }
-  return { apiKey: connectionSettings.settings.api_key, fromEmail: connectionSettings.settings.from_email };
+  return queueEmail(email, { userId: email.userId, kind: email.kind });
 }
 
-async function getUncachableResendClient() {
-  const { apiKey, fromEmail } = await getCredentials();
-  return {
-    client: new Resend(apiKey),
-    fromEmail
-  };
+/**
+ * Stops queued credential emails of this kind from going out: a new password
+ * or reset link is about to be sent and the old one no longer works.
+ */
+export async function supersedeCredentialEmails(userId: string, kind: EmailKind): Promise<void> {
+  await storage.supersedeQueuedOutboxEmails(userId, kind, 'Substituido por um novo envio', REDACTED_EMAIL_BODY);
+}
+
+export function startEmailOutbox() {
+  getTransport();
+  // Rows written before bodies were redacted.
+  storage.redactOutboxEmails(CREDENTIAL_EMAIL_KINDS, REDACTED_EMAIL_BODY).catch((error: any) => {
+    console.error('[EMAIL] Error redacting sent credential emails:', error?.message || error);
+  });
+  setInterval(processOutbox, OUTBOX_INTERVAL_MS);
+  processOutbox();
+}
+
+export function getAppBaseUrl(): string {
+  return process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : process.env.REPLIT_DEPLOYMENT_DOMAIN
+    ? `https://${process.env.REPLIT_DEPLOYMENT_DOMAIN}`
+    : 'http://localhost:5000';
+}
+
+async function sendTemplate(
+  to: string,
+  render: (branding: Branding) => RenderedEmail,
+  meta: { userId?: string; kind: EmailKind }
+): Promise<boolean> {
+  const branding = await storage.getChurchSettings();
+  const { subject, html, text } = render(branding);
+  return queueEmail({ to, subject, html, text }, meta);
 }
 
 export async function sendProvisionalPasswordEmail(
   toEmail: string,
   userName: string,
-  provisionalPassword: string
+  provisionalPassword: string,
+  userId?: string
 ) {
   try {
     console.log(`[EMAIL] Attempting to send provisional password to ${toEmail}`);
-    const { client, fromEmail } = await getUncachableResendClient();
-    console.log(`[EMAIL] Using from email: ${fromEmail}`);
-    
-    await client.emails.send({
-      from: fromEmail,
-      to: toEmail,
-      subject: 'Louvor App - Sua senha provisoria',
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Bem-vindo ao Louvor App!</h2>
-          <p>Ola ${userName},</p>
-          <p>Sua conta foi criada com sucesso. Use a senha provisoria abaixo para fazer seu primeiro login:</p>
-          <div style="background-color: #f4f4f4; padding: 20px; text-align: center; margin: 20px 0; border-radius: 8px;">
-            <h1 style="color: #6b46c1; letter-spacing: 4px; margin: 0;">${provisionalPassword}</h1>
-          </div>
-          <p><strong>Importante:</strong> Ao fazer login pela primeira vez, voce sera solicitado a criar uma nova senha.</p>
-          <p>Sua nova senha deve ter no minimo 8 caracteres.</p>
-          <br/>
-          <p>Equipe Louvor App</p>
-        </div>
-      `
-    });
-    
-    console.log(`[EMAIL] Successfully sent provisional password email to ${toEmail}`);
-    return true;
+
+    const sent = await sendTemplate(
+      toEmail,
+      (branding) => provisionalPasswordEmail(branding, { userName, password: provisionalPassword }),
+      { userId, kind: 'provisional-password' }
+    );
+
+    if (sent) {
+      console.log(`[EMAIL] Successfully sent provisional password email to ${toEmail}`);
+    }
+    return sent;
   } catch (error: any) {
     console.error('[EMAIL] Error sending provisional password email:', error?.message || error);
     return false;
@@ -79,46 +173,68 @@ export async function sendProvisionalPasswordEmail(
 export async function sendPasswordResetEmail(
   toEmail: string,
   userName: string,
-  resetToken: string
+  resetToken: string,
+  userId?: string
 ) {
   try {
-    const { client, fromEmail } = await getUncachableResendClient();
-    
-    const baseUrl = process.env.REPLIT_DEV_DOMAIN 
-      ? `https://${process.env.REPLIT_DEV_DOMAIN}`
-      : process.env.REPLIT_DEPLOYMENT_DOMAIN
-      ? `https://${process.env.REPLIT_DEPLOYMENT_DOMAIN}`
-      : 'http://localhost:5000';
-    
-    const resetLink = `${baseUrl}/reset-password?token=${resetToken}`;
-    
-    await client.emails.send({
-      from: fromEmail,
-      to: toEmail,
-      subject: 'Louvor App - Redefinir senha',
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Redefinir sua senha</h2>
-          <p>Ola ${userName},</p>
-          <p>Recebemos uma solicitacao para redefinir sua senha. Clique no botao abaixo para criar uma nova senha:</p>
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${resetLink}" style="background-color: #6b46c1; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">Redefinir Senha</a>
-          </div>
-          <p>Se voce nao solicitou a redefinicao de senha, ignore este email.</p>
-          <p>Este link expira em 1 hora.</p>
-          <br/>
-          <p>Equipe Louvor App</p>
-        </div>
-      `
-    });
-    
-    return true;
+    const resetLink = `${getAppBaseUrl()}/reset-password?token=${resetToken}`;
+
+    return await sendTemplate(
+      toEmail,
+      (branding) => passwordResetEmail(branding, { userName, resetLink }),
+      { userId, kind: 'password-reset' }
+    );
   } catch (error) {
     console.error('Error sending password reset email:', error);
     return false;
   }
 }
 
+type ServiceForEmail = { id: string; name: string; date: string; time: string };
+
+function serviceInfo(service: ServiceForEmail): ServiceEmailInfo {
+  return {
+    name: service.name,
+    date: service.date,
+    time: service.time,
+    link: `${getAppBaseUrl()}/repertoire/${service.id}`,
+  };
+}
+
+export async function sendServiceReminderEmail(
+  user: { id: string; email: string; name: string },
+  service: ServiceForEmail,
+  songs: { title: string; artist: string; key: string }[]
+) {
+  try {
+    return await sendTemplate(
+      user.email,
+      (branding) => serviceReminderEmail(branding, { userName: user.name, service: serviceInfo(service), songs }),
+      { userId: user.id, kind: 'service-reminder' }
+    );
+  } catch (error: any) {
+    console.error('[EMAIL] Error sending service reminder email:', error?.message || error);
+    return false;
+  }
+}
+
+export async function sendScheduleNotificationEmail(
+  user: { id: string; email: string; name: string },
+  service: ServiceForEmail,
+  positions: string[]
+) {
+  try {
+    return await sendTemplate(
+      user.email,
+      (branding) => scheduleNotificationEmail(branding, { userName: user.name, service: serviceInfo(service), positions }),
+      { userId: user.id, kind: 'schedule-notification' }
+    );
+  } catch (error: any) {
+    console.error('[EMAIL] Error sending schedule notification email:', error?.message || error);
+    return false;
+  }
+}
+
 export function generateNumericPassword(length: number = 6): string {
   let password = '';
   for (let i = 0; i < length; i++) {
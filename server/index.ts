@@ -4,14 +4,19 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { setupSocket } from "./socket";
-import passport, { seedAdminUser } from "./auth";
+import { startEmailOutbox } from "./email";
+import { startReminderScheduler } from "./reminders";
+import { trackSessionActivity } from "./sessions";
+import { initializeSetup } from "./setup";
+import { loadConfig } from "./config";
+import passport from "./auth";
 import connectPgSimple from "connect-pg-simple";
 
+const config = loadConfig();
+
 const app = express();
 const httpServer = createServer(app);
 
-setupSocket(httpServer);
-
 // Trust proxy for Replit environment
 app.set("trust proxy", 1);
 
@@ -23,6 +28,7 @@ declare module "http" {
 
 app.use(
   express.json({
+    limit: "5mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -33,26 +39,28 @@ app.use(express.urlencoded({ extended: false }));
 
 const PgSession = connectPgSimple(session);
 
-app.use(
-  session({
-    store: new PgSession({
-      conString: process.env.DATABASE_URL,
-      createTableIfMissing: true,
-    }),
-    secret: process.env.SESSION_SECRET || "louvor-app-secret-key",
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      secure: "auto" as any,
-      httpOnly: true,
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-      sameSite: "lax",
-    },
-  })
-);
+const sessionMiddleware = session({
+  store: new PgSession({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: true,
+  }),
+  secret: config.sessionSecret,
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: "auto" as any,
+    httpOnly: true,
+    maxAge: 7 * 24 * 60 * 60 * 1000,
+    sameSite: "lax",
+  },
+});
 
+app.use(sessionMiddleware);
 app.use(passport.initialize());
 app.use(passport.session());
+app.use("/api", trackSessionActivity);
+
+setupSocket(httpServer, sessionMiddleware);
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -65,6 +73,9 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Two-factor setup and recovery code responses; the log gets a placeholder instead.
+const LOGGED_SECRET_FIELDS = new Set(["secret", "otpauthUrl", "qrCodeDataUrl", "recoveryCodes"]);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -81,7 +92,9 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, (key, value) =>
+          LOGGED_SECRET_FIELDS.has(key) ? "[redacted]" : value
+        )}`;
       }
 
       log(logLine);
@@ -92,8 +105,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  await seedAdminUser();
+  await initializeSetup();
   await registerRoutes(httpServer, app);
+  startEmailOutbox();
+  startReminderScheduler();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import type { LoginThrottle, LoginThrottleScope } from "@shared/login-throttle";
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const MAX_DELAY_MS = 15 * MINUTE_MS;
+// Failure counters start over after an hour without failed attempts.
+const RESET_AFTER_MS = 60 * MINUTE_MS;
+
+type ThrottlePolicy = {
+  /** Failures allowed before attempts start being delayed. */
+  freeAttempts: number;
+  /** Failures that trigger a temporary lockout. */
+  lockoutAfter: number;
+  lockoutMs: number;
+};
+
+export const LOGIN_THROTTLE_POLICIES: Record<LoginThrottleScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, lockoutAfter: 10, lockoutMs: 30 * MINUTE_MS },
+  // Looser per IP: a church wifi or carrier NAT puts many members behind one address.
+  ip: { freeAttempts: 10, lockoutAfter: 50, lockoutMs: 60 * MINUTE_MS },
+};
+
+export type LoginThrottleStatus =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterMs: number };
+
+/** Delay required after `failures` failed attempts: 1s, 2s, 4s... once the free attempts are used. */
+export function getBackoffMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  return Math.min(SECOND_MS * 2 ** (failures - policy.freeAttempts), MAX_DELAY_MS);
+}
+
+function isExpired(throttle: LoginThrottle, now: Date): boolean {
+  if (throttle.lockedUntil) return throttle.lockedUntil <= now;
+  return now.getTime() - throttle.lastFailureAt.getTime() > RESET_AFTER_MS;
+}
+
+export function getThrottleStatus(throttle: LoginThrottle | undefined, now: Date): LoginThrottleStatus {
+  if (!throttle || isExpired(throttle, now)) return { allowed: true };
+
+  if (throttle.lockedUntil) {
+    return { allowed: false, locked: true, retryAfterMs: throttle.lockedUntil.getTime() - now.getTime() };
+  }
+
+  const policy = LOGIN_THROTTLE_POLICIES[throttle.scope];
+  const nextAttemptAt = throttle.lastFailureAt.getTime() + getBackoffMs(throttle.failures, policy);
+  if (nextAttemptAt <= now.getTime()) return { allowed: true };
+  return { allowed: false, locked: false, retryAfterMs: nextAttemptAt - now.getTime() };
+}
+
+/** The stricter of two statuses: a lockout beats a backoff, a longer wait beats a shorter one. */
+function mostRestrictive(a: LoginThrottleStatus, b: LoginThrottleStatus): LoginThrottleStatus {
+  if (a.allowed) return b;
+  if (b.allowed) return a;
+  if (a.locked !== b.locked) return a.locked ? a : b;
+  return a.retryAfterMs >= b.retryAfterMs ? a : b;
+}
+
+export function normalizeLoginEmail(email: unknown): string {
+  return typeof email === "string" ? email.trim().toLowerCase() : "";
+}
+
+export async function checkLoginThrottle(ip: string, email: string, now: Date): Promise<LoginThrottleStatus> {
+  const [byIp, byAccount] = await Promise.all([
+    storage.getLoginThrottle("ip", ip),
+    email ? storage.getLoginThrottle("account", email) : Promise.resolve(undefined),
+  ]);
+  return mostRestrictive(getThrottleStatus(byIp, now), getThrottleStatus(byAccount, now));
+}
+
+/**
+ * Increments the counter atomically and decides from the row it returns, so
+ * parallel guesses that all passed `checkLoginThrottle` still add up and the
+ * ones past the limit are turned away.
+ */
+async function recordFailure(scope: LoginThrottleScope, identifier: string, now: Date): Promise<LoginThrottleStatus> {
+  const policy = LOGIN_THROTTLE_POLICIES[scope];
+  const saved = await storage.incrementLoginThrottle(scope, identifier, now, {
+    resetBefore: new Date(now.getTime() - RESET_AFTER_MS),
+    lockoutAfter: policy.lockoutAfter,
+    lockedUntil: new Date(now.getTime() + policy.lockoutMs),
+  });
+  if (saved.failures === policy.lockoutAfter) {
+    console.warn(`[LOGIN] ${scope} ${identifier} locked after ${saved.failures} failed attempts`);
+  }
+  return getThrottleStatus(saved, now);
+}
+
+/**
+ * Counts a failed login against the client IP and the attempted account
+ * (whether or not it exists, so lockouts don't reveal registered emails).
+ */
+export async function recordLoginFailure(ip: string, email: string, now: Date): Promise<LoginThrottleStatus> {
+  const byIp = await recordFailure("ip", ip, now);
+  const byAccount = email ? await recordFailure("account", email, now) : ({ allowed: true } as const);
+  return mostRestrictive(byIp, byAccount);
+}
+
+/** Successful logins and password resets clear the account counter; the IP counter only decays. */
+export async function clearAccountThrottle(email: string): Promise<boolean> {
+  return storage.deleteLoginThrottle("account", normalizeLoginEmail(email));
+}
+
+export function describeThrottle(status: Extract<LoginThrottleStatus, { allowed: false }>): string {
+  if (status.locked) {
+    const minutes = Math.max(1, Math.ceil(status.retryAfterMs / MINUTE_MS));
+    return `Acesso bloqueado temporariamente por excesso de tentativas. Tente novamente em ${minutes} ${minutes === 1 ? "minuto" : "minutos"}.`;
+  }
+  const seconds = Math.max(1, Math.ceil(status.retryAfterMs / SECOND_MS));
+  return `Muitas tentativas de login. Aguarde ${seconds} ${seconds === 1 ? "segundo" : "segundos"} e tente novamente.`;
+}
@@ -0,0 +1,156 @@
+import PDFDocument from "pdfkit";
+import type { ServiceWithSongs } from "@shared/schema";
+import { getSectionLabel, layoutChordLine, transposeContent } from "@shared/chords";
+
+const PAGE_MARGIN = 50;
+const CONTENT_FONT_SIZE = 10;
+const PRIMARY_COLOR = "#6b46c1";
+
+function formatServiceDate(date: string): string {
+  return new Date(date + "T00:00:00").toLocaleDateString("pt-BR", {
+    weekday: "long",
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+/** Column where a chord/lyric pair can break without splitting a chord, preferring a space in the lyrics. */
+function findBreakColumn(chordLine: string, lyricLine: string, columns: number): number {
+  const splitsChord = (i: number) => chordLine[i - 1] > " " && chordLine[i] > " ";
+  const minimum = Math.floor(columns / 2);
+  for (let i = columns; i > minimum; i--) {
+    if (!splitsChord(i) && (i >= lyricLine.length || lyricLine[i] === " ")) return i;
+  }
+  for (let i = columns; i > minimum; i--) {
+    if (!splitsChord(i)) return i;
+  }
+  return columns;
+}
+
+/**
+ * Wraps a chord row and its lyric row at the same columns, so each chord stays
+ * over its syllable on the continuation rows as well.
+ */
+function wrapChordRows(chordLine: string, lyricLine: string, columns: number): { chordLine: string; lyricLine: string }[] {
+  const rows: { chordLine: string; lyricLine: string }[] = [];
+  let chords = chordLine;
+  let lyrics = lyricLine;
+
+  while (Math.max(chords.length, lyrics.length) > columns) {
+    const column = findBreakColumn(chords, lyrics, columns);
+    rows.push({ chordLine: chords.slice(0, column).trimEnd(), lyricLine: lyrics.slice(0, column).trimEnd() });
+    chords = chords.slice(column);
+    lyrics = lyrics.slice(column);
+    // Drop the indentation both rows share so the continuation starts at the margin.
+    const indent = Math.min(chords.search(/\S|$/), lyrics.search(/\S|$/));
+    chords = chords.slice(indent);
+    lyrics = lyrics.slice(indent);
+  }
+
+  rows.push({ chordLine: chords, lyricLine: lyrics });
+  return rows;
+}
+
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function renderCoverPage(doc: PDFKit.PDFDocument, service: ServiceWithSongs, songs: ServiceWithSongs["songs"]) {
+  doc.font("Helvetica-Bold").fontSize(24).fillColor("black").text(service.name, { align: "center" });
+  doc.moveDown(0.3);
+  doc.font("Helvetica").fontSize(12).fillColor("#555555")
+    .text(`${formatServiceDate(service.date)} - ${service.time}`, { align: "center" });
+  doc.moveDown(2);
+
+  doc.font("Helvetica-Bold").fontSize(14).fillColor("black").text("Ordem do repertório");
+  doc.moveDown(0.5);
+
+  if (songs.length === 0) {
+    doc.font("Helvetica").fontSize(12).fillColor("#555555").text("Nenhuma música no repertório");
+    return;
+  }
+
+  songs.forEach((serviceSong, index) => {
+    const key = serviceSong.transposedKey || serviceSong.song.originalKey;
+    ensureSpace(doc, 20);
+    doc.font("Helvetica-Bold").fontSize(12).fillColor("black")
+      .text(`${index + 1}. ${serviceSong.song.title}`, { continued: true })
+      .font("Helvetica").fillColor("#555555")
+      .text(`  ${serviceSong.song.artist}`, { continued: true })
+      .font("Helvetica-Bold").fillColor(PRIMARY_COLOR)
+      .text(`  (Tom: ${key})`);
+    doc.moveDown(0.3);
+  });
+}
+
+function renderSong(doc: PDFKit.PDFDocument, serviceSong: ServiceWithSongs["songs"][number], index: number) {
+  const { song } = serviceSong;
+  const key = serviceSong.transposedKey || song.originalKey;
+  const content = transposeContent(song.content, song.originalKey, key);
+
+  doc.font("Helvetica-Bold").fontSize(16).fillColor("black").text(`${index + 1}. ${song.title}`);
+  doc.font("Helvetica").fontSize(11).fillColor("#555555").text(song.artist, { continued: true })
+    .font("Helvetica-Bold").fillColor(PRIMARY_COLOR).text(`   Tom: ${key}`);
+  doc.moveDown();
+
+  doc.font("Courier").fontSize(CONTENT_FONT_SIZE);
+  const lineHeight = doc.currentLineHeight(true);
+  const columns = Math.floor((doc.page.width - PAGE_MARGIN * 2) / doc.widthOfString("M"));
+
+  for (const line of content.split("\n")) {
+    const section = getSectionLabel(line);
+    if (section) {
+      ensureSpace(doc, lineHeight * 2);
+      doc.moveDown(0.3);
+      doc.font("Helvetica-Bold").fillColor("black").text(section);
+      continue;
+    }
+
+    const layout = layoutChordLine(line);
+    for (const { chordLine, lyricLine } of wrapChordRows(layout.chordLine, layout.lyricLine, columns)) {
+      if (!layout.hasChords) {
+        ensureSpace(doc, lineHeight);
+        doc.font("Courier").fillColor("black").text(lyricLine || " ", { lineBreak: false });
+        doc.moveDown();
+        continue;
+      }
+
+      // Keep the chord row on the same page as the lyrics it belongs to.
+      ensureSpace(doc, lineHeight * 2);
+      doc.font("Courier-Bold").fillColor(PRIMARY_COLOR).text(chordLine || " ", { lineBreak: false });
+      doc.moveDown();
+      if (lyricLine.trim()) {
+        doc.font("Courier").fillColor("black").text(lyricLine, { lineBreak: false });
+        doc.moveDown();
+      }
+    }
+  }
+}
+
+export function renderServicePdf(service: ServiceWithSongs): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: { Title: service.name, Author: "Louvor App" },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const songs = [...service.songs].sort((a, b) => a.order - b.order);
+
+    renderCoverPage(doc, service, songs);
+    songs.forEach((serviceSong, index) => {
+      doc.addPage();
+      renderSong(doc, serviceSong, index);
+    });
+
+    doc.end();
+  });
+}
@@ -0,0 +1,170 @@
+import { storage, type IStorage } from "./storage";
+import { sendServiceReminderEmail } from "./email";
+import { APP_TIMEZONE, toZonedDateString, zonedTimeToUtc } from "./timezone";
+import type { Service, User } from "@shared/schema";
+import { DEFAULT_NOTIFICATION_PREFERENCES, REMINDER_OFFSET_OPTIONS } from "@shared/notifications";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_OFFSET_HOURS = Math.max(...REMINDER_OFFSET_OPTIONS);
+
+/** Source of the current time; swap in a fake clock to drive the scheduler in tests. */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export type ReminderSong = { title: string; artist: string; key: string };
+
+export type SendReminder = (user: User, service: Service, songs: ReminderSong[]) => Promise<boolean>;
+
+type ReminderStorage = Pick<
+  IStorage,
+  | "getServicesBetween"
+  | "getServiceTeam"
+  | "getServiceSongs"
+  | "getUsers"
+  | "getNotificationPreferencesForUsers"
+  | "getSentReminders"
+  | "claimReminders"
+>;
+
+export type ReminderSchedulerOptions = {
+  storage: ReminderStorage;
+  clock?: Clock;
+  send?: SendReminder;
+  intervalMs?: number;
+  timeZone?: string;
+};
+
+/** Services store a local date ("YYYY-MM-DD") and time ("HH:MM"); both are read in the church timezone. */
+export function getServiceStart(service: { date: string; time: string }, timeZone: string = APP_TIMEZONE): Date {
+  return zonedTimeToUtc(service.date, service.time, timeZone);
+}
+
+/**
+ * Sends each scheduled member a reminder when one of their lead times
+ * (hours before the service) has been reached. Every lead time fires once;
+ * if several become due together (e.g. someone scheduled late) only one
+ * email goes out.
+ */
+export class ReminderScheduler {
+  private readonly storage: ReminderStorage;
+  private readonly clock: Clock;
+  private readonly send: SendReminder;
+  private readonly intervalMs: number;
+  private readonly timeZone: string;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(options: ReminderSchedulerOptions) {
+    this.storage = options.storage;
+    this.clock = options.clock ?? systemClock;
+    this.send = options.send ?? sendServiceReminderEmail;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.timeZone = options.timeZone ?? APP_TIMEZONE;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runDue(), this.intervalMs);
+    this.runDue();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Sends every reminder due at the clock's current time; returns how many went out. */
+  async runDue(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    try {
+      return await this.sendDueReminders(this.clock.now());
+    } catch (error: any) {
+      console.error("[REMINDERS] Error sending reminders:", error?.message || error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async sendDueReminders(now: Date): Promise<number> {
+    const horizon = new Date(now.getTime() + (MAX_OFFSET_HOURS + 24) * HOUR_MS);
+    const upcoming = (
+      await this.storage.getServicesBetween(toZonedDateString(now, this.timeZone), toZonedDateString(horizon, this.timeZone))
+    ).filter((service) => getServiceStart(service, this.timeZone) > now);
+    if (upcoming.length === 0) return 0;
+
+    const sentKeys = new Set(
+      (await this.storage.getSentReminders(upcoming.map((service) => service.id))).map(
+        (sent) => `${sent.serviceId}:${sent.userId}:${sent.offsetHours}`
+      )
+    );
+
+    let users: Map<string, User> | null = null;
+    let count = 0;
+
+    for (const service of upcoming) {
+      const team = await this.storage.getServiceTeam(service.id);
+      const userIds = Array.from(new Set(team.map((member) => member.userId)));
+      if (userIds.length === 0) continue;
+
+      const start = getServiceStart(service, this.timeZone).getTime();
+      const preferences = await this.storage.getNotificationPreferencesForUsers(userIds);
+      let songs: ReminderSong[] | null = null;
+
+      for (const userId of userIds) {
+        const prefs = preferences.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+        if (prefs.channel === "none") continue;
+
+        const due = prefs.reminderHours.filter(
+          (hours) => !sentKeys.has(`${service.id}:${userId}:${hours}`) && now.getTime() >= start - hours * HOUR_MS
+        );
+        if (due.length === 0) continue;
+
+        if (!users) {
+          users = new Map<string, User>((await this.storage.getUsers()).map((user) => [user.id, user]));
+        }
+        const user = users.get(userId);
+        if (!user || user.status === "blocked") continue;
+
+        if (!songs) {
+          songs = (await this.storage.getServiceSongs(service.id)).map((serviceSong) => ({
+            title: serviceSong.song.title,
+            artist: serviceSong.song.artist,
+            key: serviceSong.transposedKey || serviceSong.song.originalKey,
+          }));
+        }
+
+        // Claimed before sending, so a crash or an overlapping run can't send it twice.
+        // Delivery failures are retried by the email outbox, so a claimed reminder counts as sent.
+        const claimed = await this.storage.claimReminders(service.id, userId, due);
+        if (claimed.length === 0) continue;
+        await this.send(user, service, songs);
+        count++;
+      }
+    }
+
+    if (count > 0) {
+      console.log(`[REMINDERS] Sent ${count} service reminder(s)`);
+    }
+    return count;
+  }
+}
+
+let scheduler: ReminderScheduler | null = null;
+
+export function startReminderScheduler(): ReminderScheduler {
+  if (!scheduler) {
+    scheduler = new ReminderScheduler({ storage });
+    scheduler.start();
+  }
+  return scheduler;
+}
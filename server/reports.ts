@@ -0,0 +1,137 @@
+import type { Song } from "@shared/schema";
+import type { SongCopyright } from "@shared/copyright";
+import type { SongUsagePeriod, SongUsageReport, SongUsageStat } from "@shared/reports";
+
+export type SongPlay = {
+  songId: string;
+  date: string;
+  key: string;
+};
+
+export type SongUsageOptions = {
+  from: string;
+  to: string;
+  unusedWeeks: number;
+};
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function listMonths(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [year, month] = from.slice(0, 7).split("-").map(Number);
+  const end = to.slice(0, 7);
+  while (true) {
+    const period = `${year}-${String(month).padStart(2, "0")}`;
+    if (period > end) break;
+    months.push(period);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+/**
+ * Aggregates every time a song appeared in a service up to `to`. Lifetime
+ * totals and last played ignore `from`; per-period counts respect it.
+ */
+export function buildSongUsageReport(songs: Song[], plays: SongPlay[], options: SongUsageOptions): SongUsageReport {
+  const { from, to, unusedWeeks } = options;
+  const unusedSince = shiftDate(to, -unusedWeeks * 7);
+
+  const stats = new Map<string, SongUsageStat>();
+  for (const song of songs) {
+    stats.set(song.id, {
+      songId: song.id,
+      title: song.title,
+      artist: song.artist,
+      timesPlayed: 0,
+      timesPlayedInPeriod: 0,
+      lastPlayed: null,
+      keysUsed: [],
+    });
+  }
+
+  const months = listMonths(from, to);
+  const periodCounts = new Map<string, number>(months.map((m) => [m, 0]));
+
+  for (const play of plays) {
+    if (play.date > to) continue;
+    const stat = stats.get(play.songId);
+    if (!stat) continue;
+
+    stat.timesPlayed++;
+    if (!stat.lastPlayed || play.date > stat.lastPlayed) stat.lastPlayed = play.date;
+    if (play.key && !stat.keysUsed.includes(play.key)) stat.keysUsed.push(play.key);
+
+    if (play.date >= from) {
+      stat.timesPlayedInPeriod++;
+      const period = play.date.slice(0, 7);
+      periodCounts.set(period, (periodCounts.get(period) ?? 0) + 1);
+    }
+  }
+
+  const songStats = Array.from(stats.values()).sort(
+    (a, b) => b.timesPlayedInPeriod - a.timesPlayedInPeriod || a.title.localeCompare(b.title),
+  );
+
+  const periods: SongUsagePeriod[] = months.map((period) => ({ period, count: periodCounts.get(period) ?? 0 }));
+
+  const unused = songStats
+    .filter((stat) => !stat.lastPlayed || stat.lastPlayed < unusedSince)
+    .sort((a, b) => (a.lastPlayed ?? "").localeCompare(b.lastPlayed ?? ""));
+
+  return { from, to, unusedWeeks, songs: songStats, periods, unused };
+}
+
+// Text starting with these is run as a formula by Excel and Sheets.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number | null | undefined): string {
+  const raw = value == null ? "" : String(value);
+  const text = typeof value === "string" && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the licensing usage CSV: one row per song performed between `from`
+ * and `to` (inclusive) with its copyright metadata and number of uses.
+ */
+export function buildCopyrightUsageCsv(
+  songs: Song[],
+  copyrights: SongCopyright[],
+  plays: SongPlay[],
+  from: string,
+  to: string,
+): string {
+  const counts = new Map<string, number>();
+  for (const play of plays) {
+    if (play.date < from || play.date > to) continue;
+    counts.set(play.songId, (counts.get(play.songId) ?? 0) + 1);
+  }
+
+  const copyrightBySong = new Map(copyrights.map((c) => [c.songId, c]));
+  const rows = songs
+    .filter((song) => counts.has(song.id))
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .map((song) => {
+      const copyright = copyrightBySong.get(song.id);
+      return [
+        song.title,
+        song.artist,
+        copyright?.ccliNumber,
+        copyright?.authors,
+        copyright?.publisher,
+        copyright?.copyright,
+        counts.get(song.id),
+      ];
+    });
+
+  const header = ["Title", "Artist", "CCLI Song Number", "Authors", "Publisher", "Copyright", "Times Used"];
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
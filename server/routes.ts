@@ -1,12 +1,94 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertSongSchema, insertServiceSchema, type UserRole } from "@shared/schema";
+import { insertUserSchema, insertSongSchema, type Song, type Service } from "@shared/schema";
+import { KEYS, transposeContent } from "@shared/chords";
+import { insertServiceTeamMemberSchema, TEAM_POSITION_LABELS } from "@shared/team";
+import { updateChurchSettingsSchema } from "@shared/church";
+import { updateNotificationPreferencesSchema } from "@shared/notifications";
+import { insertSongCopyrightSchema } from "@shared/copyright";
+import { projectionStateSchema } from "@shared/projection";
+import { liveUpdateSchema, INACTIVE_LIVE_SESSION } from "@shared/live";
+import {
+  insertBlockoutSchema,
+  insertRecurringUnavailabilitySchema,
+  getUnavailabilityReason,
+  type MemberUnavailability,
+} from "@shared/availability";
+import {
+  insertServiceTemplateSchema,
+  insertServiceWithTemplateSchema,
+  generateServicesSchema,
+  getNextOccurrences,
+} from "@shared/templates";
 import * as cheerio from "cheerio";
-import { emitServiceUpdate } from "./socket";
-import passport, { hashPassword } from "./auth";
+import {
+  publishServiceEvent,
+  publishServiceDeleted,
+  emitProjectionUpdate,
+  getProjectionState,
+  emitLiveUpdate,
+  getLiveSession,
+} from "./socket";
+import { parseChordPro, toChordPro } from "./chordpro";
+import { renderServicePdf } from "./pdf";
+import { buildSongUsageReport, buildCopyrightUsageCsv } from "./reports";
+import passport, { getAccessDenial, hashPassword } from "./auth";
 import crypto from "crypto";
-import { sendProvisionalPasswordEmail, sendPasswordResetEmail, generateNumericPassword } from "./email";
+import {
+  sendProvisionalPasswordEmail,
+  sendPasswordResetEmail,
+  generateNumericPassword,
+  resendOutboxEmail,
+  supersedeCredentialEmails,
+  sendScheduleNotificationEmail,
+} from "./email";
+import { CREDENTIAL_EMAIL_KINDS, EMAIL_STATUSES, type EmailStatus } from "@shared/email";
+import type { LockedAccount } from "@shared/login-throttle";
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, type AuditAction, type AuditTargetType } from "@shared/audit";
+import { recordAudit } from "./audit";
+import {
+  twoFactorCodeSchema,
+  updateSecuritySettingsSchema,
+} from "@shared/two-factor";
+import {
+  isTwoFactorEnabled,
+  needsTwoFactorSetup,
+  getTwoFactorStatus,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  getSecuritySettings,
+  updateSecuritySettings,
+  type SecondFactorMethod,
+} from "./two-factor";
+import { completeSetupSchema } from "@shared/setup";
+import { hasPermission, USER_ROLES, type Permission, type UserRole } from "@shared/permissions";
+import {
+  isSetupRequired,
+  verifySetupToken,
+  completeSetup,
+  isLegacyAdminPassword,
+  disableLegacyAdminPassword,
+} from "./setup";
+import { todayInAppTimezone, zonedDayBounds } from "./timezone";
+import {
+  recordSessionDevice,
+  listUserSessions,
+  revokeUserSession,
+  revokeOtherSessions,
+  revokeAllSessions,
+} from "./sessions";
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  clearAccountThrottle,
+  describeThrottle,
+  normalizeLoginEmail,
+  type LoginThrottleStatus,
+} from "./login-throttle";
 
 function ensureAuthenticated(req: Request, res: Response, next: NextFunction) {
   if (req.isAuthenticated()) {
@@ -15,12 +97,97 @@ function ensureAuthenticated(req: Request, res: Response, next: NextFunction) {
   res.status(401).json({ error: "Nao autenticado" });
 }
 
-function authorizeRoles(...roles: UserRole[]) {
+function rejectThrottledLogin(res: Response, throttle: Extract<LoginThrottleStatus, { allowed: false }>) {
+  res.set("Retry-After", String(Math.ceil(throttle.retryAfterMs / 1000)));
+  return res.status(429).json({ error: describeThrottle(throttle), retryAfter: Math.ceil(throttle.retryAfterMs / 1000) });
+}
+
+const TWO_FACTOR_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for accounts with 2FA; the login finishes once a code is verified.
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+  }
+}
+
+/** The user as returned to the client: no secrets, plus the flags that gate the UI. */
+async function toSessionUser(user: Express.User) {
+  const { passwordHash, invitationToken, invitationExpires, passwordResetToken, passwordResetExpires, ...safeUser } = user;
+  return {
+    ...safeUser,
+    mustChangePassword: user.mustChangePassword || false,
+    twoFactorSetupRequired: await needsTwoFactorSetup(user),
+  };
+}
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/** Stores a fresh reset token (replacing any earlier one and its queued email) and emails the link. */
+async function issuePasswordReset(user: Express.User): Promise<boolean> {
+  const resetToken = crypto.randomBytes(32).toString("hex");
+  await storage.setPasswordResetToken(user.id, resetToken, new Date(Date.now() + PASSWORD_RESET_TTL_MS));
+  await supersedeCredentialEmails(user.id, "password-reset");
+  return sendPasswordResetEmail(user.email, user.name, resetToken, user.id);
+}
+
+/** Replaces a provisional password that was never changed and emails the new one. */
+async function reissueProvisionalPassword(user: Express.User): Promise<boolean> {
+  const provisionalPassword = generateNumericPassword(6);
+  await storage.updateUserPassword(user.id, await hashPassword(provisionalPassword));
+  await revokeAllSessions(user.id);
+  await supersedeCredentialEmails(user.id, "provisional-password");
+  return sendProvisionalPasswordEmail(user.email, user.name, provisionalPassword, user.id);
+}
+
+/** New assignments are emailed unless the member opted out, can't sign in, or the service is over. */
+async function shouldNotifyAssignment(user: Express.User, service: Service): Promise<boolean> {
+  if (user.status !== "active" || service.date < todayInAppTimezone()) return false;
+  const preferences = await storage.getNotificationPreferences(user.id);
+  return preferences.channel !== "none";
+}
+
+function logInUser(req: Request, res: Response, user: Express.User, method: "password" | SecondFactorMethod) {
+  req.logIn(user, async (err) => {
+    if (err) {
+      return res.status(500).json({ error: "Erro ao fazer login" });
+    }
+    recordSessionDevice(req);
+    await recordAudit(req, { action: "auth.login", targetType: "auth", targetId: user.id, after: { method } });
+    try {
+      res.json(await toSessionUser(user));
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao fazer login" });
+    }
+  });
+}
+
+/**
+ * Refuses API requests from users `getAccessDenial` turns away. The auth
+ * routes stay open so someone the 2FA policy covers can still enroll.
+ */
+async function enforceAccessPolicy(req: Request, res: Response, next: NextFunction) {
+  if (!req.user || req.path.startsWith("/auth/")) {
+    return next();
+  }
+  try {
+    const denial = await getAccessDenial(req.user);
+    if (denial) {
+      return res.status(403).json(denial);
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ error: "Erro interno" });
+  }
+}
+
+function requirePermission(permission: Permission) {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Nao autenticado" });
     }
-    if (!roles.includes(req.user.role as UserRole)) {
+    if (!hasPermission(req.user.role, permission)) {
       return res.status(403).json({ error: "Acesso negado" });
     }
     next();
@@ -31,29 +198,179 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  
-  app.post("/api/auth/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: any, info: any) => {
+  app.use("/api", enforceAccessPolicy);
+
+  app.post("/api/auth/login", async (req, res, next) => {
+    const ip = req.ip || "unknown";
+
+    // Second step: the password was accepted earlier and the session holds the pending user.
+    if (typeof req.body?.code === "string" && req.body?.password === undefined) {
+      return completeTwoFactorLogin(req, res, ip);
+    }
+
+    const email = normalizeLoginEmail(req.body?.email);
+
+    try {
+      const throttle = await checkLoginThrottle(ip, email, new Date());
+      if (!throttle.allowed) {
+        return rejectThrottledLogin(res, throttle);
+      }
+    } catch (error) {
+      return res.status(500).json({ error: "Erro interno" });
+    }
+
+    passport.authenticate("local", async (err: any, user: any, info: any) => {
       if (err) {
         return res.status(500).json({ error: "Erro interno" });
       }
       if (!user) {
+        try {
+          const throttle = await recordLoginFailure(ip, email, new Date());
+          if (!throttle.allowed && throttle.locked) {
+            return rejectThrottledLogin(res, throttle);
+          }
+        } catch (error) {
+          console.error("[LOGIN] Failed to record login failure:", error);
+        }
+        await recordAudit(req, {
+          action: "auth.login-failed",
+          targetType: "auth",
+          targetId: email || null,
+          after: { reason: info?.message || "Credenciais invalidas" },
+          actor: null,
+        });
         return res.status(401).json({ error: info?.message || "Credenciais invalidas" });
       }
-      req.logIn(user, (err) => {
-        if (err) {
-          return res.status(500).json({ error: "Erro ao fazer login" });
+
+      try {
+        // Failures from guesses sent in parallel may have locked the account while this password was checked.
+        const throttle = await checkLoginThrottle(ip, email, new Date());
+        if (!throttle.allowed && throttle.locked) {
+          return rejectThrottledLogin(res, throttle);
+        }
+        if (isLegacyAdminPassword(req.body?.password ?? "")) {
+          await disableLegacyAdminPassword(user);
+          await recordAudit(req, {
+            action: "auth.login-failed",
+            targetType: "auth",
+            targetId: email || null,
+            after: { reason: "Senha fixa de versoes anteriores" },
+            actor: null,
+          });
+          return res.status(401).json({
+            error: "Essa senha foi desativada por seguranca. Enviamos um link para definir uma nova senha ao seu email.",
+          });
+        }
+        if (await isTwoFactorEnabled(user.id)) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT_MS,
+            attempts: 0,
+          };
+          return res.json({ twoFactorRequired: true });
+        }
+      } catch (error) {
+        return res.status(500).json({ error: "Erro interno" });
+      }
+
+      await clearAccountThrottle(user.email).catch(() => false);
+      logInUser(req, res, user, "password");
+    })(req, res, next);
+  });
+
+  async function completeTwoFactorLogin(req: Request, res: Response, ip: string) {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ error: "Sessao de login expirada. Entre novamente." });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.status === "blocked") {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Credenciais invalidas" });
+      }
+
+      const throttle = await checkLoginThrottle(ip, user.email, new Date());
+      if (!throttle.allowed) {
+        return rejectThrottledLogin(res, throttle);
+      }
+
+      const method = await verifySecondFactor(user.id, req.body.code);
+      if (!method) {
+        pending.attempts++;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
         }
-        const { passwordHash, invitationToken, invitationExpires, passwordResetToken, passwordResetExpires, ...safeUser } = user;
-        return res.json({
-          ...safeUser,
-          mustChangePassword: user.mustChangePassword || false,
+        const failure = await recordLoginFailure(ip, user.email, new Date());
+        await recordAudit(req, {
+          action: "auth.login-failed",
+          targetType: "auth",
+          targetId: user.email,
+          after: { reason: "Codigo de verificacao invalido" },
+          actor: null,
         });
+        if (!failure.allowed && failure.locked) {
+          return rejectThrottledLogin(res, failure);
+        }
+        return res.status(401).json({ error: "Codigo invalido" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await clearAccountThrottle(user.email);
+      logInUser(req, res, user, method);
+    } catch (error) {
+      res.status(500).json({ error: "Erro interno" });
+    }
+  }
+
+  app.get("/api/setup", async (req, res) => {
+    try {
+      res.json({ required: await isSetupRequired() });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch setup status" });
+    }
+  });
+
+  app.post("/api/setup", async (req, res) => {
+    try {
+      if (!(await isSetupRequired())) {
+        return res.status(404).json({ error: "Configuracao inicial ja concluida" });
+      }
+      const parsed = completeSetupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+      if (!verifySetupToken(parsed.data.token)) {
+        return res.status(403).json({ error: "Token de configuracao invalido" });
+      }
+      if (await storage.getUserByEmail(parsed.data.email)) {
+        return res.status(400).json({ error: "Email ja cadastrado" });
+      }
+
+      const admin = await completeSetup(parsed.data);
+      if (!admin) {
+        return res.status(409).json({ error: "Configuracao inicial ja concluida" });
+      }
+      await recordAudit(req, {
+        action: "setup.complete",
+        targetType: "user",
+        targetId: admin.id,
+        after: { admin, church: parsed.data.church },
+        actor: { id: admin.id, name: admin.name },
       });
-    })(req, res, next);
+      logInUser(req, res, admin, "password");
+    } catch (error) {
+      console.error("Error completing setup:", error);
+      res.status(500).json({ error: "Erro ao concluir a configuracao" });
+    }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
+    if (req.user) {
+      await recordAudit(req, { action: "auth.logout", targetType: "auth", targetId: req.user.id });
+    }
     req.logout((err) => {
       if (err) {
         return res.status(500).json({ error: "Erro ao fazer logout" });
@@ -62,15 +379,15 @@ export async function registerRoutes(
     });
   });
 
-  app.get("/api/auth/me", (req, res) => {
+  app.get("/api/auth/me", async (req, res) => {
     if (!req.user) {
       return res.status(401).json({ error: "Nao autenticado" });
     }
-    const { passwordHash, invitationToken, invitationExpires, passwordResetToken, passwordResetExpires, ...safeUser } = req.user as any;
-    res.json({
-      ...safeUser,
-      mustChangePassword: (req.user as any).mustChangePassword || false,
-    });
+    try {
+      res.json(await toSessionUser(req.user));
+    } catch (error) {
+      res.status(500).json({ error: "Erro interno" });
+    }
   });
 
   app.post("/api/auth/register", async (req, res) => {
@@ -92,6 +409,14 @@ export async function registerRoutes(
 
       const passwordHash = await hashPassword(password);
       await storage.activateUser(user.id, passwordHash, name || user.name);
+      await recordAudit(req, {
+        action: "auth.register",
+        targetType: "user",
+        targetId: user.id,
+        before: { name: user.name, status: user.status },
+        after: { name: name || user.name, status: "active" },
+        actor: { id: user.id, name: name || user.name },
+      });
 
       res.json({ success: true, message: "Conta ativada com sucesso" });
     } catch (error) {
@@ -99,7 +424,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/users", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/users", ensureAuthenticated, requirePermission("members.view"), async (req, res) => {
     try {
       const users = await storage.getUsers();
       const safeUsers = users.map(({ passwordHash, invitationToken, invitationExpires, ...user }) => user);
@@ -109,7 +434,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/users", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.post("/api/users", ensureAuthenticated, requirePermission("members.invite"), async (req, res) => {
     try {
       const parsed = insertUserSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -131,18 +456,19 @@ export async function registerRoutes(
         passwordHash: hashedPassword,
       });
 
-      const emailSent = await sendProvisionalPasswordEmail(user.email, user.name, provisionalPassword);
-      console.log(`[EMAIL] Provisional password email sent to ${user.email}: ${emailSent ? 'SUCCESS' : 'FAILED'}`);
+      const emailSent = await sendProvisionalPasswordEmail(user.email, user.name, provisionalPassword, user.id);
+      console.log(`[EMAIL] Provisional password email sent to ${user.email}: ${emailSent ? 'SUCCESS' : 'FAILED (queued for retry)'}`);
+      await recordAudit(req, { action: "user.create", targetType: "user", targetId: user.id, after: user });
 
       const { passwordHash: _, ...safeUser } = user;
-      res.status(201).json(safeUser);
+      res.status(201).json({ ...safeUser, emailSent });
     } catch (error) {
       console.error("Error creating user:", error);
       res.status(500).json({ error: "Failed to create user" });
     }
   });
 
-  app.patch("/api/users/:id/block", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.patch("/api/users/:id/block", ensureAuthenticated, requirePermission("members.manage"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
@@ -159,6 +485,16 @@ export async function registerRoutes(
       if (!updatedUser) {
         return res.status(404).json({ error: "Usuario nao encontrado" });
       }
+      if (newStatus === "blocked") {
+        await revokeAllSessions(user.id);
+      }
+      await recordAudit(req, {
+        action: newStatus === "blocked" ? "user.block" : "user.unblock",
+        targetType: "user",
+        targetId: user.id,
+        before: { status: user.status },
+        after: { status: updatedUser.status },
+      });
 
       const { passwordHash, invitationToken, invitationExpires, ...safeUser } = updatedUser;
       res.json(safeUser);
@@ -167,7 +503,47 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/users/:id", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.patch("/api/users/:id/role", ensureAuthenticated, requirePermission("members.roles"), async (req, res) => {
+    try {
+      const role = req.body?.role as UserRole;
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: "Papel invalido" });
+      }
+      if (req.params.id === req.user!.id) {
+        return res.status(403).json({ error: "Nao pode alterar o proprio papel" });
+      }
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "Usuario nao encontrado" });
+      }
+      if (user.role === role) {
+        const { passwordHash, invitationToken, invitationExpires, ...safeUser } = user;
+        return res.json(safeUser);
+      }
+
+      const updatedUser = await storage.updateUserRole(user.id, role);
+      if (!updatedUser) {
+        return res.status(404).json({ error: "Usuario nao encontrado" });
+      }
+      // The member logs in again and gets the new permissions from a clean session.
+      await revokeAllSessions(user.id);
+      await recordAudit(req, {
+        action: "user.role-change",
+        targetType: "user",
+        targetId: user.id,
+        before: { role: user.role },
+        after: { role: updatedUser.role },
+      });
+
+      const { passwordHash, invitationToken, invitationExpires, ...safeUser } = updatedUser;
+      res.json(safeUser);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  app.delete("/api/users/:id", ensureAuthenticated, requirePermission("members.manage"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
@@ -179,32 +555,189 @@ export async function registerRoutes(
       }
 
       await storage.deleteUser(req.params.id);
+      await revokeAllSessions(user.id);
+      await recordAudit(req, { action: "user.delete", targetType: "user", targetId: user.id, before: user });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete user" });
     }
   });
 
-  app.post("/api/users/:id/reset-password", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.post("/api/users/:id/reset-password", ensureAuthenticated, requirePermission("members.manage"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ error: "Usuario nao encontrado" });
       }
 
-      const resetToken = crypto.randomBytes(32).toString("hex");
-      const resetExpires = new Date(Date.now() + 60 * 60 * 1000);
-
-      await storage.setPasswordResetToken(user.id, resetToken, resetExpires);
-      await sendPasswordResetEmail(user.email, user.name, resetToken);
+      const emailSent = await issuePasswordReset(user);
+      await recordAudit(req, {
+        action: "user.password-reset-request",
+        targetType: "user",
+        targetId: user.id,
+        after: { email: user.email, emailSent },
+      });
 
-      res.json({ success: true, message: "Email de reset enviado com sucesso" });
+      res.json({
+        success: true,
+        emailSent,
+        message: emailSent ? "Email de reset enviado com sucesso" : "Email de reset na fila para nova tentativa",
+      });
     } catch (error) {
       console.error("Error sending reset email:", error);
       res.status(500).json({ error: "Failed to send reset email" });
     }
   });
 
+  app.get("/api/church", ensureAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getChurchSettings());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch church settings" });
+    }
+  });
+
+  app.put("/api/church", ensureAuthenticated, requirePermission("church.manage"), async (req, res) => {
+    try {
+      const parsed = updateChurchSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+      const before = await storage.getChurchSettings();
+      const settings = await storage.updateChurchSettings(parsed.data);
+      await recordAudit(req, { action: "church.update", targetType: "church", targetId: settings.id, before, after: settings });
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update church settings" });
+    }
+  });
+
+  app.get("/api/admin/emails", ensureAuthenticated, requirePermission("emails.manage"), async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !EMAIL_STATUSES.includes(status as EmailStatus)) {
+        return res.status(400).json({ error: "Status invalido" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 200, 1000);
+
+      const emails = await storage.getOutboxEmails({
+        userId: req.query.userId as string | undefined,
+        status: status as EmailStatus | undefined,
+        limit,
+      });
+      res.json(emails);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch emails" });
+    }
+  });
+
+  app.post("/api/admin/emails/:id/resend", ensureAuthenticated, requirePermission("emails.manage"), async (req, res) => {
+    try {
+      const email = await storage.getOutboxEmail(req.params.id);
+      if (!email) {
+        return res.status(404).json({ error: "Email nao encontrado" });
+      }
+
+      let sent: boolean;
+      if (email.kind && CREDENTIAL_EMAIL_KINDS.includes(email.kind)) {
+        // The stored body holds an old password or an expired link, so a new one is issued.
+        const user = email.userId ? await storage.getUser(email.userId) : undefined;
+        if (!user) {
+          return res.status(409).json({ error: "O membro deste email nao existe mais" });
+        }
+        if (user.status === "blocked") {
+          return res.status(409).json({ error: "O membro esta bloqueado" });
+        }
+        if (email.kind === "provisional-password") {
+          if (!user.mustChangePassword) {
+            return res.status(409).json({ error: "O membro ja trocou a senha provisoria; use Resetar senha" });
+          }
+          sent = await reissueProvisionalPassword(user);
+        } else {
+          sent = await issuePasswordReset(user);
+        }
+      } else {
+        sent = await resendOutboxEmail(email);
+      }
+      await recordAudit(req, {
+        action: "email.resend",
+        targetType: "email",
+        targetId: email.id,
+        after: { to: email.to, subject: email.subject, kind: email.kind, sent },
+      });
+      res.json({ sent });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resend email" });
+    }
+  });
+
+  app.get("/api/admin/audit", ensureAuthenticated, requirePermission("audit.view"), async (req, res) => {
+    try {
+      const { actorId, action, targetType, targetId, from, to } = req.query;
+      if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+        return res.status(400).json({ error: "Acao invalida" });
+      }
+      if (targetType && !AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType)) {
+        return res.status(400).json({ error: "Tipo de alvo invalido" });
+      }
+
+      const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+      if ((from && !isoDate.test(String(from))) || (to && !isoDate.test(String(to)))) {
+        return res.status(400).json({ error: "Datas devem estar no formato AAAA-MM-DD" });
+      }
+
+      const entries = await storage.getAuditEntries({
+        actorId: actorId as string | undefined,
+        action: action as AuditAction | undefined,
+        targetType: targetType as AuditTargetType | undefined,
+        targetId: targetId as string | undefined,
+        // Whole days in the church timezone, both ends inclusive.
+        from: from ? zonedDayBounds(String(from)).start : undefined,
+        before: to ? zonedDayBounds(String(to)).end : undefined,
+        limit: Math.min(parseInt(req.query.limit as string, 10) || 100, 500),
+        offset: Math.max(parseInt(req.query.offset as string, 10) || 0, 0),
+      });
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/admin/locked-accounts", ensureAuthenticated, requirePermission("security.manage"), async (req, res) => {
+    try {
+      const throttles = await storage.getLockedLoginThrottles("account", new Date());
+      const accounts: LockedAccount[] = await Promise.all(
+        throttles.map(async (throttle) => {
+          const user = await storage.getUserByEmail(throttle.identifier);
+          return {
+            email: throttle.identifier,
+            userId: user?.id ?? null,
+            userName: user?.name ?? null,
+            failures: throttle.failures,
+            lastFailureAt: throttle.lastFailureAt.toISOString(),
+            lockedUntil: throttle.lockedUntil!.toISOString(),
+          };
+        })
+      );
+      res.json(accounts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch locked accounts" });
+    }
+  });
+
+  app.delete("/api/admin/locked-accounts/:email", ensureAuthenticated, requirePermission("security.manage"), async (req, res) => {
+    try {
+      const unlocked = await clearAccountThrottle(req.params.email);
+      if (!unlocked) {
+        return res.status(404).json({ error: "Conta nao esta bloqueada" });
+      }
+      await recordAudit(req, { action: "auth.unlock", targetType: "auth", targetId: normalizeLoginEmail(req.params.email) });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unlock account" });
+    }
+  });
+
   app.post("/api/auth/reset-password", async (req, res) => {
     try {
       const { token, password } = req.body;
@@ -228,6 +761,14 @@ export async function registerRoutes(
 
       const hashedPassword = await hashPassword(password);
       await storage.resetPasswordWithToken(user.id, hashedPassword);
+      await clearAccountThrottle(user.email);
+      await revokeAllSessions(user.id);
+      await recordAudit(req, {
+        action: "auth.password-reset",
+        targetType: "user",
+        targetId: user.id,
+        actor: { id: user.id, name: user.name },
+      });
 
       res.json({ success: true, message: "Senha redefinida com sucesso" });
     } catch (error) {
@@ -250,6 +791,9 @@ export async function registerRoutes(
 
       const hashedPassword = await hashPassword(password);
       await storage.updateUserPasswordAndClearFlag(userId, hashedPassword);
+      // Whoever knew the old password is signed out; this device stays logged in.
+      await revokeOtherSessions(userId, req.sessionID);
+      await recordAudit(req, { action: "auth.password-change", targetType: "user", targetId: userId });
 
       res.json({ success: true, message: "Senha alterada com sucesso" });
     } catch (error) {
@@ -257,154 +801,719 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/songs", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/auth/sessions", ensureAuthenticated, async (req, res) => {
     try {
-      const songs = await storage.getSongs();
-      res.json(songs);
+      res.json(await listUserSessions(req.user!.id, req.sessionID));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch songs" });
+      res.status(500).json({ error: "Failed to fetch sessions" });
     }
   });
 
-  app.get("/api/songs/:id", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/auth/sessions/:id", ensureAuthenticated, async (req, res) => {
     try {
-      const song = await storage.getSong(req.params.id);
-      if (!song) {
-        return res.status(404).json({ error: "Song not found" });
+      const sessions = await listUserSessions(req.user!.id, req.sessionID);
+      const session = sessions.find((s) => s.id === req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Sessao nao encontrada" });
       }
-      res.json(song);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch song" });
-    }
-  });
-
-  app.post("/api/songs", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
-    try {
-      const parsed = insertSongSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.message });
+      if (session.current) {
+        return res.status(400).json({ error: "Use Sair para encerrar a sessao atual" });
       }
 
-      const song = await storage.createSong(parsed.data);
-      res.status(201).json(song);
+      await revokeUserSession(req.user!.id, session.id);
+      await recordAudit(req, {
+        action: "auth.session-revoke",
+        targetType: "auth",
+        targetId: req.user!.id,
+        before: { device: session.device, ip: session.ip, lastSeenAt: session.lastSeenAt },
+      });
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to create song" });
+      res.status(500).json({ error: "Failed to revoke session" });
     }
   });
 
-  app.patch("/api/songs/:id", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.delete("/api/auth/sessions", ensureAuthenticated, async (req, res) => {
     try {
-      const { content, originalKey } = req.body;
-      const song = await storage.updateSong(req.params.id, { content, originalKey });
-      if (!song) {
-        return res.status(404).json({ error: "Song not found" });
-      }
-      res.json(song);
+      const revoked = await revokeOtherSessions(req.user!.id, req.sessionID);
+      await recordAudit(req, {
+        action: "auth.sessions-revoke-others",
+        targetType: "auth",
+        targetId: req.user!.id,
+        after: { revoked },
+      });
+      res.json({ revoked });
     } catch (error) {
-      res.status(500).json({ error: "Failed to update song" });
+      res.status(500).json({ error: "Failed to revoke sessions" });
     }
   });
 
-  app.delete("/api/songs/:id", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/auth/2fa", ensureAuthenticated, async (req, res) => {
     try {
-      await storage.deleteSong(req.params.id);
-      res.status(204).send();
+      res.json(await getTwoFactorStatus(req.user!));
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete song" });
+      res.status(500).json({ error: "Failed to fetch two-factor status" });
     }
   });
 
-  app.get("/api/services", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/2fa/setup", ensureAuthenticated, async (req, res) => {
     try {
-      const services = await storage.getServices();
-      res.json(services);
+      if (await isTwoFactorEnabled(req.user!.id)) {
+        return res.status(400).json({ error: "Verificacao em duas etapas ja esta ativa" });
+      }
+      res.json(await startTwoFactorEnrollment(req.user!));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch services" });
+      res.status(500).json({ error: "Failed to start two-factor setup" });
     }
   });
 
-  app.get("/api/services/:id", ensureAuthenticated, async (req, res) => {
+  app.post("/api/auth/2fa/enable", ensureAuthenticated, async (req, res) => {
     try {
-      const service = await storage.getServiceWithSongs(req.params.id);
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
       }
-      res.json(service);
+
+      const recoveryCodes = await confirmTwoFactorEnrollment(req.user!.id, parsed.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "Codigo invalido" });
+      }
+      await recordAudit(req, { action: "auth.two-factor-enable", targetType: "user", targetId: req.user!.id });
+      res.json({ recoveryCodes });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch service" });
+      res.status(500).json({ error: "Failed to enable two-factor" });
     }
   });
 
-  app.post("/api/services", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.post("/api/auth/2fa/recovery-codes", ensureAuthenticated, async (req, res) => {
     try {
-      const parsed = insertServiceSchema.safeParse(req.body);
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
       if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.message });
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+      if (!(await verifySecondFactor(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ error: "Codigo invalido" });
       }
 
-      const service = await storage.createService(parsed.data);
-      res.status(201).json(service);
+      const recoveryCodes = await regenerateRecoveryCodes(req.user!.id);
+      await recordAudit(req, { action: "auth.recovery-codes-regenerate", targetType: "user", targetId: req.user!.id });
+      res.json({ recoveryCodes });
     } catch (error) {
-      res.status(500).json({ error: "Failed to create service" });
+      res.status(500).json({ error: "Failed to regenerate recovery codes" });
     }
   });
 
-  app.patch("/api/services/:id", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.post("/api/auth/2fa/disable", ensureAuthenticated, async (req, res) => {
     try {
-      const { name, date, time } = req.body;
-      const service = await storage.updateService(req.params.id, { name, date, time });
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
       }
-      res.json(service);
+
+      const status = await getTwoFactorStatus(req.user!);
+      if (status.required) {
+        return res.status(403).json({ error: "A verificacao em duas etapas e obrigatoria para o seu perfil" });
+      }
+      if (!(await verifySecondFactor(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ error: "Codigo invalido" });
+      }
+
+      await disableTwoFactor(req.user!.id);
+      await recordAudit(req, { action: "auth.two-factor-disable", targetType: "user", targetId: req.user!.id });
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to update service" });
+      res.status(500).json({ error: "Failed to disable two-factor" });
     }
   });
 
-  app.delete("/api/services/:id", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/admin/security", ensureAuthenticated, requirePermission("security.manage"), async (req, res) => {
     try {
-      await storage.deleteService(req.params.id);
-      res.status(204).send();
+      res.json(await getSecuritySettings());
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete service" });
+      res.status(500).json({ error: "Failed to fetch security settings" });
     }
   });
 
-  app.post("/api/services/:id/songs", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.put("/api/admin/security", ensureAuthenticated, requirePermission("security.manage"), async (req, res) => {
     try {
-      const { songId, transposedKey } = req.body;
-      if (!songId) {
-        return res.status(400).json({ error: "songId is required" });
+      const parsed = updateSecuritySettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
       }
 
-      const serviceSong = await storage.addSongToService({
-        serviceId: req.params.id,
-        songId,
-        order: 0,
-        transposedKey,
-      });
-      
-      const updatedService = await storage.getServiceWithSongs(req.params.id);
-      emitServiceUpdate(req.params.id, updatedService);
-      
-      res.status(201).json(serviceSong);
+      const before = await getSecuritySettings();
+      const settings = await updateSecuritySettings(parsed.data);
+      await recordAudit(req, { action: "security.update", targetType: "security", targetId: settings.id, before, after: settings });
+      res.json(settings);
     } catch (error) {
-      res.status(500).json({ error: "Failed to add song to service" });
+      res.status(500).json({ error: "Failed to update security settings" });
     }
   });
 
-  app.patch("/api/services/:serviceId/songs/:serviceSongId", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/songs", ensureAuthenticated, requirePermission("songs.read"), async (req, res) => {
     try {
-      const { transposedKey, order } = req.body;
-
+      const songs = await storage.getSongs();
+      res.json(songs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch songs" });
+    }
+  });
+
+  app.get("/api/songs/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const song = await storage.getSong(req.params.id);
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+      res.json(song);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch song" });
+    }
+  });
+
+  app.get("/api/songs/:id/transpose", ensureAuthenticated, async (req, res) => {
+    try {
+      const key = req.query.key as string;
+      if (!key || !KEYS.includes(key)) {
+        return res.status(400).json({ error: "Query parameter 'key' must be a valid key" });
+      }
+
+      const song = await storage.getSong(req.params.id);
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+
+      res.json({
+        ...song,
+        transposedKey: key,
+        content: transposeContent(song.content, song.originalKey, key),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to transpose song" });
+    }
+  });
+
+  app.post("/api/songs", ensureAuthenticated, requirePermission("songs.write"), async (req, res) => {
+    try {
+      const parsed = insertSongSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const song = await storage.createSong(parsed.data, req.user!.id);
+      await recordAudit(req, { action: "song.create", targetType: "song", targetId: song.id, after: song });
+      res.status(201).json(song);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create song" });
+    }
+  });
+
+  app.post("/api/songs/import/chordpro", ensureAuthenticated, requirePermission("songs.import"), async (req, res) => {
+    try {
+      const files: { name?: string; content?: string }[] = Array.isArray(req.body.files)
+        ? req.body.files
+        : [{ name: req.body.name, content: req.body.content }];
+
+      if (files.length === 0 || files.some((file) => typeof file?.content !== "string")) {
+        return res.status(400).json({ error: "content or files[].content is required" });
+      }
+
+      const imported: Song[] = [];
+      const errors: { name: string; error: string }[] = [];
+
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index];
+        const name = file.name || `arquivo ${index + 1}`;
+        const parsed = parseChordPro(file.content!);
+        const song = insertSongSchema.safeParse({
+          title: parsed.title || name.replace(/\.[^.]+$/, ""),
+          artist: parsed.artist || "Artista",
+          originalKey: parsed.originalKey || "C",
+          content: parsed.content,
+          source: "chordpro",
+        });
+
+        if (!song.success || !parsed.content.trim()) {
+          errors.push({ name, error: song.success ? "Arquivo sem conteudo" : song.error.message });
+          continue;
+        }
+
+        const created = await storage.createSong(song.data, req.user!.id);
+        await recordAudit(req, { action: "song.import", targetType: "song", targetId: created.id, after: created });
+        imported.push(created);
+      }
+
+      res.status(imported.length > 0 ? 201 : 400).json({ imported, errors });
+    } catch (error) {
+      console.error("ChordPro import error:", error);
+      res.status(500).json({ error: "Failed to import ChordPro songs" });
+    }
+  });
+
+  app.get("/api/songs/:id/export.chordpro", ensureAuthenticated, async (req, res) => {
+    try {
+      const song = await storage.getSong(req.params.id);
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+
+      const key = typeof req.query.key === "string" && KEYS.includes(req.query.key) ? req.query.key : song.originalKey;
+      const content = key === song.originalKey ? song.content : transposeContent(song.content, song.originalKey, key);
+      const filename = song.title.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "musica";
+
+      res.setHeader("Content-Type", "application/vnd.chordpro; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.chordpro"`);
+      res.send(toChordPro({ title: song.title, artist: song.artist, originalKey: key, content }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export song" });
+    }
+  });
+
+  app.patch("/api/songs/:id", ensureAuthenticated, requirePermission("songs.write"), async (req, res) => {
+    try {
+      const { content, originalKey } = req.body;
+      const before = await storage.getSong(req.params.id);
+      const song = await storage.updateSong(req.params.id, { content, originalKey }, req.user!.id);
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+      await recordAudit(req, { action: "song.update", targetType: "song", targetId: song.id, before, after: song });
+      res.json(song);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update song" });
+    }
+  });
+
+  app.get("/api/songs/:id/revisions", ensureAuthenticated, async (req, res) => {
+    try {
+      const song = await storage.getSong(req.params.id);
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+
+      const revisions = await storage.getSongRevisions(req.params.id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch song revisions" });
+    }
+  });
+
+  app.post("/api/songs/:id/revisions/:revisionId/restore", ensureAuthenticated, requirePermission("songs.write"), async (req, res) => {
+    try {
+      const revision = await storage.getSongRevision(req.params.revisionId);
+      if (!revision || revision.songId !== req.params.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const before = await storage.getSong(req.params.id);
+      const song = await storage.updateSong(
+        req.params.id,
+        { content: revision.content, originalKey: revision.originalKey },
+        req.user!.id
+      );
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+      await recordAudit(req, {
+        action: "song.revision-restore",
+        targetType: "song",
+        targetId: song.id,
+        before,
+        after: { ...song, restoredRevisionId: revision.id },
+      });
+      res.json(song);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore song revision" });
+    }
+  });
+
+  app.get("/api/songs/:id/copyright", ensureAuthenticated, async (req, res) => {
+    try {
+      const copyright = await storage.getSongCopyright(req.params.id);
+      res.json(copyright ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch copyright" });
+    }
+  });
+
+  app.put("/api/songs/:id/copyright", ensureAuthenticated, requirePermission("songs.write"), async (req, res) => {
+    try {
+      const parsed = insertSongCopyrightSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+
+      const song = await storage.getSong(req.params.id);
+      if (!song) {
+        return res.status(404).json({ error: "Song not found" });
+      }
+
+      const before = await storage.getSongCopyright(song.id);
+      const copyright = await storage.upsertSongCopyright(song.id, parsed.data);
+      await recordAudit(req, { action: "song.copyright-update", targetType: "song", targetId: song.id, before, after: copyright });
+      res.json(copyright);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update copyright" });
+    }
+  });
+
+  app.delete("/api/songs/:id", ensureAuthenticated, requirePermission("songs.write"), async (req, res) => {
+    try {
+      const song = await storage.getSong(req.params.id);
+      const usages = await storage.getServiceSongsBySong(req.params.id);
+      await storage.deleteSong(req.params.id);
+      for (const serviceSong of usages) {
+        await publishServiceEvent(serviceSong.serviceId, { type: "song-removed", serviceSongId: serviceSong.id });
+      }
+      if (song) {
+        await recordAudit(req, { action: "song.delete", targetType: "song", targetId: song.id, before: song });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete song" });
+    }
+  });
+
+  app.get("/api/services", ensureAuthenticated, async (req, res) => {
+    try {
+      const services = await storage.getServices();
+      res.json(services);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch services" });
+    }
+  });
+
+  app.get("/api/services/:id/projection", ensureAuthenticated, async (req, res) => {
+    res.json(getProjectionState(req.params.id));
+  });
+
+  app.put("/api/services/:id/projection", ensureAuthenticated, requirePermission("services.present"), async (req, res) => {
+    try {
+      const parsed = projectionStateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const service = await storage.getService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      // Not audited: the operator moves slides every few seconds during a service.
+      emitProjectionUpdate(service.id, parsed.data);
+      res.json(parsed.data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update projection" });
+    }
+  });
+
+  app.get("/api/services/:id/live", ensureAuthenticated, async (req, res) => {
+    res.json(getLiveSession(req.params.id));
+  });
+
+  app.put("/api/services/:id/live", ensureAuthenticated, requirePermission("services.present"), async (req, res) => {
+    try {
+      const parsed = liveUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const service = await storage.getService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      const current = getLiveSession(service.id);
+      const ledByOther = current.active && current.leaderId !== req.user!.id;
+      const canTakeOver = hasPermission(req.user!.role, "services.takeover");
+      if (!parsed.data.active) {
+        // Only the current leader (or someone allowed to take over) can end someone's session.
+        if (ledByOther && !canTakeOver) {
+          return res.status(403).json({ error: "Apenas o lider da sessao pode encerra-la" });
+        }
+        emitLiveUpdate(service.id, INACTIVE_LIVE_SESSION);
+        if (current.active) {
+          await recordAudit(req, {
+            action: "service.live-end",
+            targetType: "service",
+            targetId: service.id,
+            before: { leaderId: current.leaderId, leaderName: current.leaderName },
+          });
+        }
+        return res.json(INACTIVE_LIVE_SESSION);
+      }
+
+      if (ledByOther && !canTakeOver) {
+        return res.status(409).json({ error: `${current.leaderName} ja esta conduzindo ao vivo` });
+      }
+
+      const session = {
+        active: true,
+        leaderId: req.user!.id,
+        leaderName: req.user!.name,
+        serviceSongId: parsed.data.serviceSongId ?? null,
+        sectionIndex: parsed.data.sectionIndex ?? null,
+        sectionLabel: parsed.data.sectionLabel ?? null,
+      };
+      emitLiveUpdate(service.id, session);
+      // Position updates stream while the leader scrolls; only taking over the session is audited.
+      if (!current.active || current.leaderId !== session.leaderId) {
+        await recordAudit(req, {
+          action: "service.live-start",
+          targetType: "service",
+          targetId: service.id,
+          before: current.active ? { leaderId: current.leaderId, leaderName: current.leaderName } : null,
+          after: { leaderId: session.leaderId, leaderName: session.leaderName },
+        });
+      }
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update live session" });
+    }
+  });
+
+  app.get("/api/service-templates", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const templates = await storage.getServiceTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch service templates" });
+    }
+  });
+
+  app.post("/api/service-templates", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const parsed = insertServiceTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+
+      const template = await storage.createServiceTemplate(parsed.data);
+      await recordAudit(req, { action: "service-template.create", targetType: "service-template", targetId: template.id, after: template });
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create service template" });
+    }
+  });
+
+  app.delete("/api/service-templates/:id", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const template = await storage.getServiceTemplate(req.params.id);
+      await storage.deleteServiceTemplate(req.params.id);
+      if (template) {
+        await recordAudit(req, { action: "service-template.delete", targetType: "service-template", targetId: template.id, before: template });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete service template" });
+    }
+  });
+
+  app.post("/api/service-templates/:id/generate", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const parsed = generateServicesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+
+      const template = await storage.getServiceTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      const today = todayInAppTimezone();
+      const dates = getNextOccurrences(template, today, parsed.data.count);
+      const existingDates = await storage.getTemplateOccurrenceDates(template.id);
+
+      const created: Service[] = [];
+      for (const date of dates) {
+        if (existingDates.includes(date)) continue;
+        const service = await storage.createServiceFromTemplate(template.id, {
+          name: template.name,
+          date,
+          time: template.time,
+        });
+        created.push(service);
+      }
+
+      await recordAudit(req, {
+        action: "service-template.generate",
+        targetType: "service-template",
+        targetId: template.id,
+        after: { created: created.map(({ id, name, date, time }) => ({ id, name, date, time })), skipped: dates.length - created.length },
+      });
+      res.status(201).json({ created, skipped: dates.length - created.length });
+    } catch (error) {
+      console.error("Service generation error:", error);
+      res.status(500).json({ error: "Failed to generate services" });
+    }
+  });
+
+  app.get("/api/services/:id/template", ensureAuthenticated, async (req, res) => {
+    try {
+      const template = await storage.getServiceTemplateForService(req.params.id);
+      res.json(template ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch service template" });
+    }
+  });
+
+  app.get("/api/services/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      // Read the revision first: a change landing in between is then already in the
+      // snapshot, and replaying its (idempotent) event is harmless.
+      const revision = await storage.getServiceRevision(req.params.id);
+      const service = await storage.getServiceWithSongs(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      res.json({ ...service, revision });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch service" });
+    }
+  });
+
+  app.get("/api/services/:id/export.pdf", ensureAuthenticated, async (req, res) => {
+    try {
+      const service = await storage.getServiceWithSongs(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      const pdf = await renderServicePdf(service);
+      const filename = `${service.name}-${service.date}`.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename || "repertorio"}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("PDF export error:", error);
+      res.status(500).json({ error: "Failed to export service" });
+    }
+  });
+
+  app.post("/api/services", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const parsed = insertServiceWithTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const { templateId, ...data } = parsed.data;
+      if (!templateId) {
+        const service = await storage.createService(data);
+        await recordAudit(req, { action: "service.create", targetType: "service", targetId: service.id, after: service });
+        return res.status(201).json(service);
+      }
+
+      const template = await storage.getServiceTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      const existingDates = await storage.getTemplateOccurrenceDates(templateId);
+      if (existingDates.includes(data.date)) {
+        return res.status(409).json({ error: "Ja existe um culto deste modelo nesta data" });
+      }
+
+      const service = await storage.createServiceFromTemplate(templateId, data);
+      await recordAudit(req, { action: "service.create", targetType: "service", targetId: service.id, after: { ...service, templateId } });
+      res.status(201).json(service);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create service" });
+    }
+  });
+
+  app.patch("/api/services/:id", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const { name, date, time } = req.body;
+      const before = await storage.getService(req.params.id);
+      const service = await storage.updateService(req.params.id, { name, date, time });
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      await recordAudit(req, { action: "service.update", targetType: "service", targetId: service.id, before, after: service });
+      await publishServiceEvent(service.id, {
+        type: "service-renamed",
+        name: service.name,
+        date: service.date,
+        time: service.time,
+      });
+      res.json(service);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update service" });
+    }
+  });
+
+  app.delete("/api/services/:id", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const service = await storage.getService(req.params.id);
+      const revision = await storage.getServiceRevision(req.params.id);
+      await storage.deleteService(req.params.id);
+      publishServiceDeleted(req.params.id, revision);
+      if (service) {
+        await recordAudit(req, { action: "service.delete", targetType: "service", targetId: service.id, before: service });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete service" });
+    }
+  });
+
+  app.post("/api/services/:id/songs", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const { songId, transposedKey } = req.body;
+      if (!songId) {
+        return res.status(400).json({ error: "songId is required" });
+      }
+
+      const serviceSong = await storage.addSongToService({
+        serviceId: req.params.id,
+        songId,
+        order: 0,
+        transposedKey,
+      });
+
+      const song = await storage.getSong(serviceSong.songId);
+      if (song) {
+        await publishServiceEvent(req.params.id, { type: "song-added", serviceSong: { ...serviceSong, song } });
+      }
+      await recordAudit(req, {
+        action: "service.song-add",
+        targetType: "service",
+        targetId: req.params.id,
+        after: { serviceSongId: serviceSong.id, songId, title: song?.title, transposedKey: serviceSong.transposedKey },
+      });
+      
+      res.status(201).json(serviceSong);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to add song to service" });
+    }
+  });
+
+  app.patch("/api/services/:serviceId/songs/:serviceSongId", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const { transposedKey, order } = req.body;
+      const before = (await storage.getServiceSongs(req.params.serviceId)).find(
+        (serviceSong) => serviceSong.id === req.params.serviceSongId
+      );
+
       if (order !== undefined) {
         const serviceSong = await storage.updateServiceSongOrder(
           req.params.serviceSongId,
           order
         );
-        const updatedService = await storage.getServiceWithSongs(req.params.serviceId);
-        emitServiceUpdate(req.params.serviceId, updatedService);
+        await publishServiceEvent(req.params.serviceId, {
+          type: "reordered",
+          orders: [{ id: serviceSong.id, order: serviceSong.order }],
+        });
+        await recordAudit(req, {
+          action: "service.reorder",
+          targetType: "service",
+          targetId: req.params.serviceId,
+          before: before ? [{ id: before.id, title: before.song.title, order: before.order }] : null,
+          after: [{ id: serviceSong.id, title: before?.song.title, order: serviceSong.order }],
+        });
         return res.json(serviceSong);
       }
 
@@ -416,42 +1525,323 @@ export async function registerRoutes(
         req.params.serviceSongId,
         transposedKey
       );
-      const updatedService = await storage.getServiceWithSongs(req.params.serviceId);
-      emitServiceUpdate(req.params.serviceId, updatedService);
+      await publishServiceEvent(req.params.serviceId, {
+        type: "key-changed",
+        serviceSongId: serviceSong.id,
+        transposedKey,
+      });
+      await recordAudit(req, {
+        action: "service.song-update",
+        targetType: "service",
+        targetId: req.params.serviceId,
+        before: before ? { serviceSongId: before.id, title: before.song.title, transposedKey: before.transposedKey } : null,
+        after: { serviceSongId: serviceSong.id, title: before?.song.title, transposedKey: serviceSong.transposedKey },
+      });
       res.json(serviceSong);
     } catch (error) {
       res.status(500).json({ error: "Failed to update service song" });
     }
   });
 
-  app.delete("/api/services/:serviceId/songs/:serviceSongId", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.delete("/api/services/:serviceId/songs/:serviceSongId", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
     try {
+      const before = (await storage.getServiceSongs(req.params.serviceId)).find(
+        (serviceSong) => serviceSong.id === req.params.serviceSongId
+      );
       await storage.removeSongFromService(req.params.serviceSongId);
-      const updatedService = await storage.getServiceWithSongs(req.params.serviceId);
-      emitServiceUpdate(req.params.serviceId, updatedService);
+      await publishServiceEvent(req.params.serviceId, {
+        type: "song-removed",
+        serviceSongId: req.params.serviceSongId,
+      });
+      await recordAudit(req, {
+        action: "service.song-remove",
+        targetType: "service",
+        targetId: req.params.serviceId,
+        before: before
+          ? { serviceSongId: before.id, songId: before.songId, title: before.song.title, transposedKey: before.transposedKey }
+          : { serviceSongId: req.params.serviceSongId },
+      });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to remove song from service" });
     }
   });
 
-  app.put("/api/services/:serviceId/songs/reorder", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.put("/api/services/:serviceId/songs/reorder", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
     try {
       const { songOrders } = req.body;
       if (!Array.isArray(songOrders)) {
         return res.status(400).json({ error: "songOrders array is required" });
       }
 
+      const before = await storage.getServiceSongs(req.params.serviceId);
       await storage.reorderServiceSongs(req.params.serviceId, songOrders);
-      const updatedService = await storage.getServiceWithSongs(req.params.serviceId);
-      emitServiceUpdate(req.params.serviceId, updatedService);
+      await publishServiceEvent(req.params.serviceId, { type: "reordered", orders: songOrders });
+      await recordAudit(req, {
+        action: "service.reorder",
+        targetType: "service",
+        targetId: req.params.serviceId,
+        before: before.map((serviceSong) => ({ id: serviceSong.id, title: serviceSong.song.title, order: serviceSong.order })),
+        after: songOrders,
+      });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to reorder songs" });
     }
   });
 
-  app.get("/api/cifraclub/search", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/services/:id/team", ensureAuthenticated, async (req, res) => {
+    try {
+      const team = await storage.getServiceTeam(req.params.id);
+      res.json(team);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch service team" });
+    }
+  });
+
+  app.post("/api/services/:id/team", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const parsed = insertServiceTeamMemberSchema.safeParse({ ...req.body, serviceId: req.params.id });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const service = await storage.getService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      const user = await storage.getUser(parsed.data.userId);
+      if (!user) {
+        return res.status(404).json({ error: "Usuario nao encontrado" });
+      }
+
+      const existing = await storage.getServiceTeam(req.params.id);
+      if (existing.some((m) => m.userId === parsed.data.userId && m.position === parsed.data.position)) {
+        return res.status(409).json({ error: "Membro ja escalado nesta posicao" });
+      }
+
+      const member = await storage.addServiceTeamMember(parsed.data);
+      await recordAudit(req, {
+        action: "service.team-add",
+        targetType: "service",
+        targetId: service.id,
+        after: { assignmentId: member.id, userId: user.id, userName: user.name, position: member.position },
+      });
+      // Failures are recorded in the email outbox; they don't fail the assignment.
+      if (await shouldNotifyAssignment(user, service)) {
+        sendScheduleNotificationEmail(user, service, [TEAM_POSITION_LABELS[member.position]]);
+      }
+      res.status(201).json(member);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to add team member" });
+    }
+  });
+
+  app.delete("/api/services/:serviceId/team/:assignmentId", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const member = await storage.getServiceTeamMember(req.params.assignmentId);
+      if (!member || member.serviceId !== req.params.serviceId) {
+        return res.status(404).json({ error: "Team assignment not found" });
+      }
+
+      await storage.removeServiceTeamMember(req.params.assignmentId);
+      await recordAudit(req, {
+        action: "service.team-remove",
+        targetType: "service",
+        targetId: member.serviceId,
+        before: { assignmentId: member.id, userId: member.userId, position: member.position },
+      });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove team member" });
+    }
+  });
+
+  app.get("/api/users/me/schedule", ensureAuthenticated, async (req, res) => {
+    try {
+      const today = todayInAppTimezone();
+      const schedule = await storage.getUpcomingServicesForUser(req.user!.id, today);
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch schedule" });
+    }
+  });
+
+  app.get("/api/services/:id/availability", ensureAuthenticated, requirePermission("services.manage"), async (req, res) => {
+    try {
+      const service = await storage.getService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      const users = await storage.getUsers();
+      const availability = await storage.getAvailabilityForUsers(users.map((u) => u.id));
+      const unavailable: MemberUnavailability[] = [];
+      for (const user of users) {
+        const rules = availability.get(user.id);
+        const reason = rules ? getUnavailabilityReason(service.date, rules) : null;
+        if (reason) {
+          unavailable.push({ userId: user.id, reason });
+        }
+      }
+      res.json(unavailable);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch availability" });
+    }
+  });
+
+  app.get("/api/users/me/notification-preferences", ensureAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getNotificationPreferences(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/users/me/notification-preferences", ensureAuthenticated, async (req, res) => {
+    try {
+      const parsed = updateNotificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+      const before = await storage.getNotificationPreferences(req.user!.id);
+      const preferences = await storage.updateNotificationPreferences(req.user!.id, parsed.data);
+      await recordAudit(req, {
+        action: "notification-preferences.update",
+        targetType: "notification-preferences",
+        targetId: req.user!.id,
+        before,
+        after: preferences,
+      });
+      res.json(preferences);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  app.get("/api/users/me/availability", ensureAuthenticated, async (req, res) => {
+    try {
+      const availability = await storage.getUserAvailability(req.user!.id);
+      res.json(availability);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch availability" });
+    }
+  });
+
+  app.post("/api/users/me/availability/blockouts", ensureAuthenticated, async (req, res) => {
+    try {
+      const parsed = insertBlockoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+
+      const blockout = await storage.createBlockout(req.user!.id, parsed.data);
+      await recordAudit(req, { action: "availability.blockout-create", targetType: "availability", targetId: blockout.id, after: blockout });
+      res.status(201).json(blockout);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create blockout" });
+    }
+  });
+
+  app.delete("/api/users/me/availability/blockouts/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const before = (await storage.getUserAvailability(req.user!.id)).blockouts.find((blockout) => blockout.id === req.params.id);
+      const deleted = await storage.deleteBlockout(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Blockout not found" });
+      }
+      await recordAudit(req, { action: "availability.blockout-delete", targetType: "availability", targetId: req.params.id, before });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete blockout" });
+    }
+  });
+
+  app.post("/api/users/me/availability/recurring", ensureAuthenticated, async (req, res) => {
+    try {
+      const parsed = insertRecurringUnavailabilitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados invalidos" });
+      }
+
+      const rule = await storage.createRecurringUnavailability(req.user!.id, parsed.data);
+      await recordAudit(req, { action: "availability.recurring-create", targetType: "availability", targetId: rule.id, after: rule });
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create recurring unavailability" });
+    }
+  });
+
+  app.delete("/api/users/me/availability/recurring/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const before = (await storage.getUserAvailability(req.user!.id)).recurring.find((rule) => rule.id === req.params.id);
+      const deleted = await storage.deleteRecurringUnavailability(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Recurring unavailability not found" });
+      }
+      await recordAudit(req, { action: "availability.recurring-delete", targetType: "availability", targetId: req.params.id, before });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete recurring unavailability" });
+    }
+  });
+
+  app.get("/api/reports/song-usage", ensureAuthenticated, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+      const today = todayInAppTimezone();
+      const to = typeof req.query.to === "string" && isoDate.test(req.query.to) ? req.query.to : today;
+
+      const defaultFrom = new Date(to + "T00:00:00Z");
+      defaultFrom.setUTCMonth(defaultFrom.getUTCMonth() - 11, 1);
+      const from = typeof req.query.from === "string" && isoDate.test(req.query.from)
+        ? req.query.from
+        : defaultFrom.toISOString().slice(0, 10);
+
+      if (from > to) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+
+      const weeks = parseInt(String(req.query.unusedWeeks ?? "8"), 10);
+      const unusedWeeks = Number.isFinite(weeks) && weeks > 0 ? Math.min(weeks, 520) : 8;
+
+      const [songs, plays] = await Promise.all([storage.getSongs(), storage.getSongPlays()]);
+      res.json(buildSongUsageReport(songs, plays, { from, to, unusedWeeks }));
+    } catch (error) {
+      console.error("Song usage report error:", error);
+      res.status(500).json({ error: "Failed to build song usage report" });
+    }
+  });
+
+  app.get("/api/reports/copyright-usage.csv", ensureAuthenticated, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+      const { from, to } = req.query;
+      if (typeof from !== "string" || typeof to !== "string" || !isoDate.test(from) || !isoDate.test(to)) {
+        return res.status(400).json({ error: "from and to (YYYY-MM-DD) are required" });
+      }
+      if (from > to) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+
+      const [songs, copyrights, plays] = await Promise.all([
+        storage.getSongs(),
+        storage.getSongCopyrights(),
+        storage.getSongPlays(),
+      ]);
+      const csv = buildCopyrightUsageCsv(songs, copyrights, plays, from, to);
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="uso-musicas-${from}-a-${to}.csv"`);
+      res.send("\uFEFF" + csv);
+    } catch (error) {
+      console.error("Copyright usage export error:", error);
+      res.status(500).json({ error: "Failed to export copyright usage" });
+    }
+  });
+
+  app.get("/api/cifraclub/search", ensureAuthenticated, requirePermission("songs.import"), async (req, res) => {
     try {
       const query = req.query.q as string;
       if (!query) {
@@ -497,7 +1887,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/cifraclub/fetch", ensureAuthenticated, authorizeRoles("admin", "lider"), async (req, res) => {
+  app.get("/api/cifraclub/fetch", ensureAuthenticated, requirePermission("songs.import"), async (req, res) => {
     try {
       const url = req.query.url as string;
       if (!url) {
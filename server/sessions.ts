@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { disconnectSessionSockets, disconnectUserSockets } from "./socket";
+import type { ActiveSession, StoredSession } from "@shared/sessions";
+
+// Saving the session rewrites its row, so last-seen only moves once a minute.
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+type SessionDevice = {
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+};
+
+declare module "express-session" {
+  interface SessionData {
+    device?: SessionDevice;
+  }
+}
+
+/** Sessions are listed by a hash of their id; the raw sid never leaves the server. */
+export function toPublicSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser/, "Samsung Internet"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/** "Chrome no Windows" style label; only the common browsers are told apart. */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Dispositivo desconhecido";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} no ${system}`;
+  return browser ?? system ?? "Navegador desconhecido";
+}
+
+/** Stamps a freshly logged-in session with the device it came from. */
+export function recordSessionDevice(req: Request) {
+  const now = Date.now();
+  req.session.device = {
+    userAgent: req.get("user-agent") ?? null,
+    ip: req.ip ?? null,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+}
+
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.user && req.session) {
+    const now = Date.now();
+    const device = req.session.device;
+    if (!device) {
+      // Sessions opened before devices were recorded.
+      recordSessionDevice(req);
+    } else if (now - device.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+      device.lastSeenAt = now;
+      device.ip = req.ip ?? device.ip;
+    }
+  }
+  next();
+}
+
+function toActiveSession(session: StoredSession, currentSid: string): ActiveSession {
+  const device = (session.sess as { device?: SessionDevice }).device;
+  return {
+    id: toPublicSessionId(session.sid),
+    device: describeUserAgent(device?.userAgent),
+    ip: device?.ip ?? null,
+    createdAt: device ? new Date(device.createdAt).toISOString() : null,
+    lastSeenAt: device ? new Date(device.lastSeenAt).toISOString() : null,
+    expiresAt: session.expire.toISOString(),
+    current: session.sid === currentSid,
+  };
+}
+
+export async function listUserSessions(userId: string, currentSid: string): Promise<ActiveSession[]> {
+  const sessions = await storage.getUserSessions(userId, new Date());
+  return sessions
+    .map((session) => toActiveSession(session, currentSid))
+    .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+}
+
+/** Ends one of the user's sessions by its public id; false when it isn't theirs or is already gone. */
+export async function revokeUserSession(userId: string, publicId: string): Promise<boolean> {
+  const sessions = await storage.getUserSessions(userId, new Date());
+  const session = sessions.find((s) => toPublicSessionId(s.sid) === publicId);
+  if (!session) return false;
+  const deleted = (await storage.deleteSessions([session.sid])) > 0;
+  disconnectSessionSockets([session.sid]);
+  return deleted;
+}
+
+/** Ends every session the user has except the one making the request. */
+export async function revokeOtherSessions(userId: string, currentSid: string): Promise<number> {
+  const sids = await storage.deleteUserSessions(userId, currentSid);
+  disconnectSessionSockets(sids);
+  return sids.length;
+}
+
+/**
+ * Logs the user out everywhere: deletes their sessions and drops their open
+ * sockets. Used when an account is blocked, deleted, changes role or has its
+ * password reset, so stale access can't outlive the change.
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const sids = await storage.deleteUserSessions(userId);
+  disconnectUserSockets(userId);
+  return sids.length;
+}
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { getAppBaseUrl, sendPasswordResetEmail } from "./email";
+import { revokeAllSessions } from "./sessions";
+import type { User } from "@shared/schema";
+import type { CompleteSetup } from "@shared/setup";
+
+// Only known once checked; flips to false for good when the first admin exists.
+let setupRequired: boolean | null = null;
+let setupToken: string | null = null;
+let completing = false;
+
+// SHA-256 of the fixed admin password seeded by versions before the setup
+// page. That password is public in the git history, so it must never sign in.
+const LEGACY_ADMIN_PASSWORD_SHA256 = "67c602d60b31f9e200418586f0d1e280db0689f9f4d088bb52f5405161bc22a4";
+const LEGACY_ADMIN_RESET_TTL_MS = 24 * 60 * 60 * 1000;
+
+export async function isSetupRequired(): Promise<boolean> {
+  if (setupRequired === null) {
+    setupRequired = !(await storage.hasAdminUser());
+  }
+  return setupRequired;
+}
+
+/**
+ * Runs at startup. Without an admin the app can't be used, so a one-time
+ * token is generated and printed to the log; whoever can read the server log
+ * creates the first admin on /setup.
+ */
+export async function initializeSetup() {
+  if (!(await isSetupRequired())) return;
+  setupToken = crypto.randomBytes(24).toString("base64url");
+  console.log("[SETUP] Nenhum admin cadastrado. Conclua a configuracao inicial em:");
+  console.log(`[SETUP] ${getAppBaseUrl()}/setup?token=${setupToken}`);
+}
+
+export function isLegacyAdminPassword(password: string): boolean {
+  const expected = Buffer.from(LEGACY_ADMIN_PASSWORD_SHA256, "hex");
+  const actual = crypto.createHash("sha256").update(password).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Called when an account signs in with the legacy password: the password is
+ * replaced by a random one, every session ends and a reset link (valid for
+ * 24 hours) goes to the account's email.
+ */
+export async function disableLegacyAdminPassword(user: User) {
+  const resetToken = crypto.randomBytes(32).toString("hex");
+  await storage.replacePasswordWithResetToken(
+    user.id,
+    await hashPassword(crypto.randomBytes(32).toString("hex")),
+    resetToken,
+    new Date(Date.now() + LEGACY_ADMIN_RESET_TTL_MS),
+  );
+  await revokeAllSessions(user.id);
+
+  console.warn(`[SETUP] ${user.email} tentou entrar com a senha fixa de versoes anteriores; ela foi desativada, as sessoes encerradas e um link de redefinicao enviado por email.`);
+  await sendPasswordResetEmail(user.email, user.name, resetToken, user.id);
+}
+
+export function verifySetupToken(token: string): boolean {
+  if (!setupToken) return false;
+  const expected = crypto.createHash("sha256").update(setupToken).digest();
+  const actual = crypto.createHash("sha256").update(token).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/** Creates the first admin and the church profile; null if setup was already done or is in progress. */
+export async function completeSetup(data: CompleteSetup): Promise<User | null> {
+  if (completing || !(await isSetupRequired())) return null;
+  completing = true;
+  try {
+    // Another instance may have finished in the meantime.
+    if (await storage.hasAdminUser()) {
+      setupRequired = false;
+      return null;
+    }
+
+    const admin = await storage.createUserWithPassword({
+      name: data.name,
+      email: data.email,
+      role: "admin",
+      passwordHash: await hashPassword(data.password),
+      status: "active",
+    });
+    await storage.updateChurchSettings(data.church);
+
+    setupRequired = false;
+    setupToken = null;
+    console.log(`[SETUP] Configuracao inicial concluida por ${admin.email}`);
+    return admin;
+  } finally {
+    completing = false;
+  }
+}
@@ -1,29 +1,147 @@
-import { Server as SocketIOServer } from "socket.io";
-import type { Server } from "http";
+import { Server as SocketIOServer, type Socket } from "socket.io";
+import type { Server, IncomingMessage, ServerResponse } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import passport, { getAccessDenial } from "./auth";
+import { storage } from "./storage";
+import type { ServiceEventPayload } from "@shared/service-events";
+import { DEFAULT_PROJECTION_STATE, type ProjectionState } from "@shared/projection";
+import { INACTIVE_LIVE_SESSION, type LiveSession } from "@shared/live";
+import type { PresenceUser } from "@shared/presence";
+import type { ClientToServerEvents, ServerToClientEvents } from "@shared/socket-events";
 
-let io: SocketIOServer | null = null;
+type SocketData = { user: Express.User; sessionId: string | null };
+type AppServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, {}, SocketData>;
+type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>;
+type HandshakeRequest = IncomingMessage & { user?: Express.User; sessionID?: string; _query: Record<string, string> };
+type EngineMiddleware = (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => void;
 
-export function setupSocket(httpServer: Server): SocketIOServer {
-  io = new SocketIOServer(httpServer, {
-    cors: {
-      origin: "*",
-      methods: ["GET", "POST"]
+let io: AppServer | null = null;
+
+// Current projector slide per service, kept in memory so late-joining
+// screens can catch up.
+const projectionStates = new Map<string, ProjectionState>();
+const liveSessions = new Map<string, LiveSession>();
+
+// Who is in each service room: userId -> user and the sockets they have open
+// (the same person may have several tabs or devices).
+const presence = new Map<string, Map<string, { user: PresenceUser; sockets: Set<string> }>>();
+
+function listViewers(serviceId: string): PresenceUser[] {
+  const viewers = presence.get(serviceId);
+  return viewers ? Array.from(viewers.values()).map((viewer) => viewer.user) : [];
+}
+
+function addViewer(serviceId: string, socket: AppSocket) {
+  const { id, name } = socket.data.user;
+  let viewers = presence.get(serviceId);
+  if (!viewers) {
+    viewers = new Map();
+    presence.set(serviceId, viewers);
+  }
+  const viewer = viewers.get(id);
+  if (viewer) {
+    viewer.sockets.add(socket.id);
+  } else {
+    viewers.set(id, { user: { id, name }, sockets: new Set([socket.id]) });
+    socket.to(`service:${serviceId}`).emit("presence", { serviceId, type: "joined", user: { id, name } });
+  }
+  socket.emit("presence", { serviceId, type: "state", viewers: listViewers(serviceId) });
+}
+
+function removeViewer(serviceId: string, socket: AppSocket) {
+  const viewers = presence.get(serviceId);
+  const userId = socket.data.user.id;
+  const viewer = viewers?.get(userId);
+  if (!viewers || !viewer) return;
+
+  viewer.sockets.delete(socket.id);
+  if (viewer.sockets.size > 0) return;
+  viewers.delete(userId);
+  if (viewers.size === 0) presence.delete(serviceId);
+  socket.to(`service:${serviceId}`).emit("presence", { serviceId, type: "left", userId });
+}
+
+// Session and passport only need to run on the handshake request; later
+// polling requests carry an engine `sid` instead.
+function onlyForHandshake(middleware: RequestHandler): EngineMiddleware {
+  return (req, res, next) => {
+    if ((req as HandshakeRequest)._query.sid === undefined) {
+      // The engine passes plain Node objects; session and passport only use what those provide.
+      middleware(req as Request, res as Response, next);
+    } else {
+      next();
     }
+  };
+}
+
+async function canAccessService(user: Express.User, serviceId: string): Promise<boolean> {
+  if (await getAccessDenial(user)) return false;
+  const service = await storage.getService(serviceId);
+  return !!service;
+}
+
+export function setupSocket(httpServer: Server, sessionMiddleware: RequestHandler): AppServer {
+  io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, {}, SocketData>(httpServer);
+
+  io.engine.use(onlyForHandshake(sessionMiddleware));
+  io.engine.use(onlyForHandshake(passport.initialize()));
+  io.engine.use(onlyForHandshake(passport.session()));
+
+  io.use(async (socket, next) => {
+    const request = socket.request as HandshakeRequest;
+    const user = request.user;
+    if (!user) {
+      return next(new Error("Nao autenticado"));
+    }
+    try {
+      const denial = await getAccessDenial(user);
+      if (denial) {
+        return next(new Error(denial.error));
+      }
+    } catch (error) {
+      return next(new Error("Erro interno"));
+    }
+    socket.data.user = user;
+    socket.data.sessionId = request.sessionID ?? null;
+    next();
   });
 
-  io.on("connection", (socket) => {
-    console.log("Client connected:", socket.id);
+  io.on("connection", (socket: AppSocket) => {
+    console.log("Client connected:", socket.id, socket.data.user.id);
+    // Private rooms so revoking a login can drop the sockets it opened.
+    socket.join(`user:${socket.data.user.id}`);
+    if (socket.data.sessionId) {
+      socket.join(`login:${socket.data.sessionId}`);
+    }
 
-    socket.on("join-service", (serviceId: string) => {
-      socket.join(`service:${serviceId}`);
-      console.log(`Client ${socket.id} joined service:${serviceId}`);
+    socket.on("join-service", async (serviceId, ack) => {
+      try {
+        if (typeof serviceId !== "string" || !(await canAccessService(socket.data.user, serviceId))) {
+          ack?.({ ok: false, error: "Acesso negado" });
+          return;
+        }
+        socket.join(`service:${serviceId}`);
+        addViewer(serviceId, socket);
+        console.log(`Client ${socket.id} joined service:${serviceId}`);
+        // The current revision lets a rejoining client tell whether it missed events.
+        ack?.({ ok: true, revision: await storage.getServiceRevision(serviceId) });
+      } catch (error) {
+        ack?.({ ok: false, error: "Falha ao entrar no culto" });
+      }
     });
 
-    socket.on("leave-service", (serviceId: string) => {
+    socket.on("leave-service", (serviceId) => {
+      removeViewer(serviceId, socket);
       socket.leave(`service:${serviceId}`);
       console.log(`Client ${socket.id} left service:${serviceId}`);
     });
 
+    socket.on("disconnecting", () => {
+      Array.from(socket.rooms)
+        .filter((room) => room.startsWith("service:"))
+        .forEach((room) => removeViewer(room.slice("service:".length), socket));
+    });
+
     socket.on("disconnect", () => {
       console.log("Client disconnected:", socket.id);
     });
@@ -32,12 +150,65 @@ export function setupSocket(httpServer: Server): SocketIOServer {
   return io;
 }
 
-export function getIO(): SocketIOServer | null {
+export function getIO(): AppServer | null {
   return io;
 }
 
-export function emitServiceUpdate(serviceId: string, data: any) {
+export function disconnectUserSockets(userId: string) {
+  io?.in(`user:${userId}`).disconnectSockets(true);
+}
+
+export function disconnectSessionSockets(sessionIds: string[]) {
+  if (io && sessionIds.length > 0) {
+    io.in(sessionIds.map((sid) => `login:${sid}`)).disconnectSockets(true);
+  }
+}
+
+/**
+ * Bumps the service revision and broadcasts the change as a delta, so clients
+ * can patch their copy and spot gaps in the revision sequence.
+ */
+export async function publishServiceEvent(serviceId: string, payload: ServiceEventPayload) {
+  const revision = await storage.incrementServiceRevision(serviceId);
+  if (io) {
+    io.to(`service:${serviceId}`).emit("service-event", { ...payload, serviceId, revision });
+  }
+}
+
+/**
+ * Tells the service room the service is gone. Its revision row is deleted with
+ * it, so the last revision is read beforehand and the event carries the next one.
+ */
+export function publishServiceDeleted(serviceId: string, lastRevision: number) {
+  projectionStates.delete(serviceId);
+  liveSessions.delete(serviceId);
+  if (io) {
+    io.to(`service:${serviceId}`).emit("service-event", { type: "service-deleted", serviceId, revision: lastRevision + 1 });
+  }
+}
+
+export function getProjectionState(serviceId: string): ProjectionState {
+  return projectionStates.get(serviceId) ?? DEFAULT_PROJECTION_STATE;
+}
+
+export function emitProjectionUpdate(serviceId: string, state: ProjectionState) {
+  projectionStates.set(serviceId, state);
+  if (io) {
+    io.to(`service:${serviceId}`).emit("projection-updated", state);
+  }
+}
+
+export function getLiveSession(serviceId: string): LiveSession {
+  return liveSessions.get(serviceId) ?? INACTIVE_LIVE_SESSION;
+}
+
+export function emitLiveUpdate(serviceId: string, session: LiveSession) {
+  if (session.active) {
+    liveSessions.set(serviceId, session);
+  } else {
+    liveSessions.delete(serviceId);
+  }
   if (io) {
-    io.to(`service:${serviceId}`).emit("service-updated", data);
+    io.to(`service:${serviceId}`).emit("live-updated", session);
   }
 }
@@ -16,33 +16,103 @@ import {
   type UserRole,
   type UserStatus,
 } from "@shared/schema";
+import { songRevisions, type SongRevision, type SongRevisionWithAuthor } from "@shared/revisions";
+import {
+  serviceTeamMembers,
+  type ServiceTeamMember,
+  type InsertServiceTeamMember,
+  type ServiceTeamMemberWithUser,
+  type ScheduledService,
+} from "@shared/team";
+import {
+  userBlockouts,
+  userRecurringUnavailability,
+  type UserBlockout,
+  type InsertBlockout,
+  type UserRecurringUnavailability,
+  type InsertRecurringUnavailability,
+  type UserAvailability,
+} from "@shared/availability";
+import {
+  serviceTemplates,
+  serviceTemplateOccurrences,
+  type ServiceTemplate,
+  type InsertServiceTemplate,
+} from "@shared/templates";
+import { songCopyrights, type SongCopyright, type InsertSongCopyright } from "@shared/copyright";
+import { serviceRevisions } from "@shared/service-events";
+import {
+  emailOutbox,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type OutboxEmailSummary,
+  type EmailStatus,
+  type EmailKind,
+} from "@shared/email";
+import {
+  notificationPreferences,
+  serviceRemindersSent,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences,
+  type ServiceReminderSent,
+} from "@shared/notifications";
+import {
+  churchSettings,
+  DEFAULT_CHURCH_SETTINGS,
+  type ChurchSettings,
+  type UpdateChurchSettings,
+} from "@shared/church";
+import {
+  loginThrottles,
+  type LoginThrottle,
+  type LoginThrottleIncrement,
+  type LoginThrottleScope,
+} from "@shared/login-throttle";
+import { auditLog, type AuditEntry, type InsertAuditEntry, type AuditFilters } from "@shared/audit";
+import {
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  securitySettings,
+  DEFAULT_SECURITY_SETTINGS,
+  type UserTwoFactor,
+  type SecuritySettings,
+  type UpdateSecuritySettings,
+} from "@shared/two-factor";
+import { sessions, type StoredSession } from "@shared/sessions";
+import type { SongPlay } from "./reports";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, asc, and, gt, gte, lt, lte, inArray, isNull, ne, sql } from "drizzle-orm";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
+  hasAdminUser(): Promise<boolean>;
   createUser(user: InsertUser): Promise<User>;
   createUserWithPassword(data: { name: string; email: string; role: UserRole; passwordHash: string; status: UserStatus }): Promise<User>;
   createUserWithProvisionalPassword(data: { name: string; email: string; role: UserRole; passwordHash: string }): Promise<User>;
   updateUserPassword(id: string, passwordHash: string): Promise<User | undefined>;
   updateUserPasswordAndClearFlag(id: string, passwordHash: string): Promise<User | undefined>;
   updateUserStatus(id: string, status: UserStatus): Promise<User | undefined>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
   updateUserInvitation(id: string, token: string, expires: Date): Promise<User | undefined>;
   getUserByInvitationToken(token: string): Promise<User | undefined>;
   activateUser(id: string, passwordHash: string, name: string): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
   setPasswordResetToken(id: string, token: string, expires: Date): Promise<User | undefined>;
+  replacePasswordWithResetToken(id: string, passwordHash: string, token: string, expires: Date): Promise<User | undefined>;
   getUserByPasswordResetToken(token: string): Promise<User | undefined>;
   resetPasswordWithToken(id: string, passwordHash: string): Promise<User | undefined>;
 
   getSong(id: string): Promise<Song | undefined>;
   getSongs(): Promise<Song[]>;
-  createSong(song: InsertSong): Promise<Song>;
-  updateSong(id: string, data: { content?: string; originalKey?: string }): Promise<Song | undefined>;
+  createSong(song: InsertSong, authorId?: string): Promise<Song>;
+  updateSong(id: string, data: { content?: string; originalKey?: string }, authorId?: string): Promise<Song | undefined>;
   deleteSong(id: string): Promise<void>;
 
+  getSongRevisions(songId: string): Promise<SongRevisionWithAuthor[]>;
+  getSongRevision(id: string): Promise<SongRevision | undefined>;
+
   getService(id: string): Promise<Service | undefined>;
   getServiceWithSongs(id: string): Promise<ServiceWithSongs | undefined>;
   getServices(): Promise<Service[]>;
@@ -56,8 +126,89 @@ export interface IStorage {
   updateServiceSongOrder(id: string, order: number): Promise<ServiceSong>;
   reorderServiceSongs(serviceId: string, songOrders: { id: string; order: number }[]): Promise<void>;
   getServiceSongs(serviceId: string): Promise<ServiceSongWithDetails[]>;
+  getServiceSongsBySong(songId: string): Promise<ServiceSong[]>;
+
+  getServiceTeam(serviceId: string): Promise<ServiceTeamMemberWithUser[]>;
+  getServiceTeamMember(id: string): Promise<ServiceTeamMember | undefined>;
+  addServiceTeamMember(member: InsertServiceTeamMember): Promise<ServiceTeamMember>;
+  removeServiceTeamMember(id: string): Promise<void>;
+  getUpcomingServicesForUser(userId: string, fromDate: string): Promise<ScheduledService[]>;
+  getServicesBetween(fromDate: string, toDate: string): Promise<Service[]>;
+
+  getUserAvailability(userId: string): Promise<UserAvailability>;
+  getAvailabilityForUsers(userIds: string[]): Promise<Map<string, UserAvailability>>;
+  createBlockout(userId: string, blockout: InsertBlockout): Promise<UserBlockout>;
+  deleteBlockout(userId: string, id: string): Promise<boolean>;
+  createRecurringUnavailability(userId: string, rule: InsertRecurringUnavailability): Promise<UserRecurringUnavailability>;
+  deleteRecurringUnavailability(userId: string, id: string): Promise<boolean>;
+
+  getServiceTemplates(): Promise<ServiceTemplate[]>;
+  getServiceTemplate(id: string): Promise<ServiceTemplate | undefined>;
+  createServiceTemplate(template: InsertServiceTemplate): Promise<ServiceTemplate>;
+  deleteServiceTemplate(id: string): Promise<void>;
+  getServiceTemplateForService(serviceId: string): Promise<ServiceTemplate | undefined>;
+  getTemplateOccurrenceDates(templateId: string): Promise<string[]>;
+  createServiceFromTemplate(templateId: string, service: InsertService): Promise<Service>;
+
+  getSongPlays(): Promise<SongPlay[]>;
+
+  getSongCopyright(songId: string): Promise<SongCopyright | undefined>;
+  getSongCopyrights(): Promise<SongCopyright[]>;
+  upsertSongCopyright(songId: string, data: InsertSongCopyright): Promise<SongCopyright>;
+
+  // Realtime revisions
+  getServiceRevision(serviceId: string): Promise<number>;
+  incrementServiceRevision(serviceId: string): Promise<number>;
+
+  // Email outbox
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  getOutboxEmail(id: string): Promise<OutboxEmail | undefined>;
+  getOutboxEmails(filters: { userId?: string; status?: EmailStatus; limit: number }): Promise<OutboxEmailSummary[]>;
+  getDueOutboxEmails(now: Date, limit: number): Promise<OutboxEmail[]>;
+  updateOutboxEmail(id: string, data: Partial<InsertOutboxEmail>): Promise<OutboxEmail | undefined>;
+  redactOutboxEmails(kinds: readonly EmailKind[], placeholder: string): Promise<number>;
+  supersedeQueuedOutboxEmails(userId: string, kind: EmailKind, reason: string, placeholder: string): Promise<number>;
+
+  // Church profile
+  getChurchSettings(): Promise<ChurchSettings>;
+  updateChurchSettings(data: UpdateChurchSettings): Promise<ChurchSettings>;
+
+  // Service reminders
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  getNotificationPreferencesForUsers(userIds: string[]): Promise<Map<string, NotificationPreferences>>;
+  updateNotificationPreferences(userId: string, prefs: NotificationPreferences): Promise<NotificationPreferences>;
+  getSentReminders(serviceIds: string[]): Promise<ServiceReminderSent[]>;
+  claimReminders(serviceId: string, userId: string, offsetHours: number[]): Promise<number[]>;
+
+  // Login throttling
+  getLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<LoginThrottle | undefined>;
+  incrementLoginThrottle(scope: LoginThrottleScope, identifier: string, now: Date, policy: LoginThrottleIncrement): Promise<LoginThrottle>;
+  deleteLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<boolean>;
+  getLockedLoginThrottles(scope: LoginThrottleScope, now: Date): Promise<LoginThrottle[]>;
+
+  // Audit log
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(filters: AuditFilters): Promise<AuditEntry[]>;
+
+  // Two-factor authentication
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  saveUserTwoFactor(userId: string, data: Pick<UserTwoFactor, "secret" | "enabledAt" | "lastUsedStep">): Promise<UserTwoFactor>;
+  deleteUserTwoFactor(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  getSecuritySettings(): Promise<SecuritySettings>;
+  updateSecuritySettings(data: UpdateSecuritySettings): Promise<SecuritySettings>;
+
+  // Login sessions (connect-pg-simple store)
+  getUserSessions(userId: string, now: Date): Promise<StoredSession[]>;
+  deleteSessions(sids: string[]): Promise<number>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<string[]>;
 }
 
+// passport stores the logged-in user's id under `passport.user` in the session JSON.
+const sessionUserId = sql<string>`${sessions.sess} -> 'passport' ->> 'user'`;
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -73,6 +224,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  async hasAdminUser(): Promise<boolean> {
+    const [admin] = await db.select({ id: users.id }).from(users).where(eq(users.role, "admin" as UserRole)).limit(1);
+    return !!admin;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values({
       name: insertUser.name,
@@ -126,6 +282,15 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async replacePasswordWithResetToken(id: string, passwordHash: string, token: string, expires: Date): Promise<User | undefined> {
+    const [user] = await db.update(users).set({
+      passwordHash,
+      passwordResetToken: token,
+      passwordResetExpires: expires,
+    }).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
   async getUserByPasswordResetToken(token: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.passwordResetToken, token));
     return user || undefined;
@@ -146,6 +311,11 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
   async updateUserInvitation(id: string, token: string, expires: Date): Promise<User | undefined> {
     const [user] = await db.update(users).set({ 
       invitationToken: token, 
@@ -183,12 +353,20 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(songs);
   }
 
-  async createSong(insertSong: InsertSong): Promise<Song> {
-    const [song] = await db.insert(songs).values(insertSong).returning();
-    return song;
+  async createSong(insertSong: InsertSong, authorId?: string): Promise<Song> {
+    return await db.transaction(async (tx) => {
+      const [song] = await tx.insert(songs).values(insertSong).returning();
+      await tx.insert(songRevisions).values({
+        songId: song.id,
+        content: song.content,
+        originalKey: song.originalKey,
+        authorId: authorId ?? null,
+      });
+      return song;
+    });
   }
 
-  async updateSong(id: string, data: { content?: string; originalKey?: string }): Promise<Song | undefined> {
+  async updateSong(id: string, data: { content?: string; originalKey?: string }, authorId?: string): Promise<Song | undefined> {
     const updateData: Partial<InsertSong> = {};
     if (data.content !== undefined) updateData.content = data.content;
     if (data.originalKey !== undefined) updateData.originalKey = data.originalKey;
@@ -196,16 +374,70 @@ export class DatabaseStorage implements IStorage {
     if (Object.keys(updateData).length === 0) {
       return this.getSong(id);
     }
-    
-    const [song] = await db.update(songs).set(updateData).where(eq(songs.id, id)).returning();
-    return song;
+
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(songs).where(eq(songs.id, id));
+      if (!current) return undefined;
+
+      const nextContent = updateData.content ?? current.content;
+      const nextKey = updateData.originalKey ?? current.originalKey;
+      if (nextContent === current.content && nextKey === current.originalKey) {
+        return current;
+      }
+
+      // Songs created before revisions existed get their current state recorded first,
+      // so the first edit can still be diffed and undone.
+      const [existingRevision] = await tx.select({ id: songRevisions.id }).from(songRevisions).where(eq(songRevisions.songId, id)).limit(1);
+      if (!existingRevision) {
+        await tx.insert(songRevisions).values({
+          songId: id,
+          content: current.content,
+          originalKey: current.originalKey,
+          authorId: null,
+          createdAt: current.createdAt ?? new Date(),
+        });
+      }
+
+      const [song] = await tx.update(songs).set(updateData).where(eq(songs.id, id)).returning();
+      await tx.insert(songRevisions).values({
+        songId: id,
+        content: song.content,
+        originalKey: song.originalKey,
+        authorId: authorId ?? null,
+      });
+      return song;
+    });
   }
 
   async deleteSong(id: string): Promise<void> {
     await db.delete(serviceSongs).where(eq(serviceSongs.songId, id));
+    await db.delete(songRevisions).where(eq(songRevisions.songId, id));
+    await db.delete(songCopyrights).where(eq(songCopyrights.songId, id));
     await db.delete(songs).where(eq(songs.id, id));
   }
 
+  async getSongRevisions(songId: string): Promise<SongRevisionWithAuthor[]> {
+    return await db
+      .select({
+        id: songRevisions.id,
+        songId: songRevisions.songId,
+        content: songRevisions.content,
+        originalKey: songRevisions.originalKey,
+        authorId: songRevisions.authorId,
+        createdAt: songRevisions.createdAt,
+        authorName: users.name,
+      })
+      .from(songRevisions)
+      .leftJoin(users, eq(songRevisions.authorId, users.id))
+      .where(eq(songRevisions.songId, songId))
+      .orderBy(desc(songRevisions.createdAt));
+  }
+
+  async getSongRevision(id: string): Promise<SongRevision | undefined> {
+    const [revision] = await db.select().from(songRevisions).where(eq(songRevisions.id, id));
+    return revision || undefined;
+  }
+
   async getService(id: string): Promise<Service | undefined> {
     const [service] = await db.select().from(services).where(eq(services.id, id));
     return service || undefined;
@@ -248,6 +480,9 @@ export class DatabaseStorage implements IStorage {
 
   async deleteService(id: string): Promise<void> {
     await db.delete(serviceSongs).where(eq(serviceSongs.serviceId, id));
+    await db.delete(serviceTeamMembers).where(eq(serviceTeamMembers.serviceId, id));
+    await db.delete(serviceTemplateOccurrences).where(eq(serviceTemplateOccurrences.serviceId, id));
+    await db.delete(serviceRevisions).where(eq(serviceRevisions.serviceId, id));
     await db.delete(services).where(eq(services.id, id));
   }
 
@@ -314,6 +549,549 @@ export class DatabaseStorage implements IStorage {
 
     return result.sort((a, b) => a.order - b.order);
   }
+
+  async getServiceSongsBySong(songId: string): Promise<ServiceSong[]> {
+    return await db.select().from(serviceSongs).where(eq(serviceSongs.songId, songId));
+  }
+
+  async getServiceTeam(serviceId: string): Promise<ServiceTeamMemberWithUser[]> {
+    return await db
+      .select({
+        id: serviceTeamMembers.id,
+        serviceId: serviceTeamMembers.serviceId,
+        userId: serviceTeamMembers.userId,
+        position: serviceTeamMembers.position,
+        createdAt: serviceTeamMembers.createdAt,
+        userName: users.name,
+      })
+      .from(serviceTeamMembers)
+      .innerJoin(users, eq(serviceTeamMembers.userId, users.id))
+      .where(eq(serviceTeamMembers.serviceId, serviceId))
+      .orderBy(asc(serviceTeamMembers.createdAt));
+  }
+
+  async getServiceTeamMember(id: string): Promise<ServiceTeamMember | undefined> {
+    const [member] = await db.select().from(serviceTeamMembers).where(eq(serviceTeamMembers.id, id));
+    return member || undefined;
+  }
+
+  async addServiceTeamMember(member: InsertServiceTeamMember): Promise<ServiceTeamMember> {
+    const [created] = await db.insert(serviceTeamMembers).values(member).returning();
+    return created;
+  }
+
+  async removeServiceTeamMember(id: string): Promise<void> {
+    await db.delete(serviceTeamMembers).where(eq(serviceTeamMembers.id, id));
+  }
+
+  async getServicesBetween(fromDate: string, toDate: string): Promise<Service[]> {
+    return await db
+      .select()
+      .from(services)
+      .where(and(gte(services.date, fromDate), lte(services.date, toDate)))
+      .orderBy(asc(services.date), asc(services.time));
+  }
+
+  async getUpcomingServicesForUser(userId: string, fromDate: string): Promise<ScheduledService[]> {
+    const rows = await db
+      .select({ service: services, position: serviceTeamMembers.position })
+      .from(serviceTeamMembers)
+      .innerJoin(services, eq(serviceTeamMembers.serviceId, services.id))
+      .where(and(eq(serviceTeamMembers.userId, userId), gte(services.date, fromDate)))
+      .orderBy(asc(services.date), asc(services.time));
+
+    const result: ScheduledService[] = [];
+    for (const row of rows) {
+      const existing = result.find((s) => s.id === row.service.id);
+      if (existing) {
+        existing.positions.push(row.position);
+      } else {
+        result.push({ ...row.service, positions: [row.position] });
+      }
+    }
+    return result;
+  }
+
+  async getUserAvailability(userId: string): Promise<UserAvailability> {
+    const availability = await this.getAvailabilityForUsers([userId]);
+    return availability.get(userId) ?? { blockouts: [], recurring: [] };
+  }
+
+  async getAvailabilityForUsers(userIds: string[]): Promise<Map<string, UserAvailability>> {
+    const result = new Map<string, UserAvailability>();
+    if (userIds.length === 0) return result;
+
+    for (const userId of userIds) {
+      result.set(userId, { blockouts: [], recurring: [] });
+    }
+
+    const blockouts = await db
+      .select()
+      .from(userBlockouts)
+      .where(inArray(userBlockouts.userId, userIds))
+      .orderBy(asc(userBlockouts.startDate));
+    for (const blockout of blockouts) {
+      result.get(blockout.userId)?.blockouts.push(blockout);
+    }
+
+    const recurring = await db
+      .select()
+      .from(userRecurringUnavailability)
+      .where(inArray(userRecurringUnavailability.userId, userIds))
+      .orderBy(asc(userRecurringUnavailability.weekday));
+    for (const rule of recurring) {
+      result.get(rule.userId)?.recurring.push(rule);
+    }
+
+    return result;
+  }
+
+  async createBlockout(userId: string, blockout: InsertBlockout): Promise<UserBlockout> {
+    const [created] = await db
+      .insert(userBlockouts)
+      .values({ userId, startDate: blockout.startDate, endDate: blockout.endDate, reason: blockout.reason || null })
+      .returning();
+    return created;
+  }
+
+  async deleteBlockout(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(userBlockouts)
+      .where(and(eq(userBlockouts.id, id), eq(userBlockouts.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async createRecurringUnavailability(userId: string, rule: InsertRecurringUnavailability): Promise<UserRecurringUnavailability> {
+    const [created] = await db
+      .insert(userRecurringUnavailability)
+      .values({ userId, weekday: rule.weekday, weekOfMonth: rule.weekOfMonth ?? null })
+      .returning();
+    return created;
+  }
+
+  async deleteRecurringUnavailability(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(userRecurringUnavailability)
+      .where(and(eq(userRecurringUnavailability.id, id), eq(userRecurringUnavailability.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getServiceTemplates(): Promise<ServiceTemplate[]> {
+    return await db.select().from(serviceTemplates).orderBy(asc(serviceTemplates.name));
+  }
+
+  async getServiceTemplate(id: string): Promise<ServiceTemplate | undefined> {
+    const [template] = await db.select().from(serviceTemplates).where(eq(serviceTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createServiceTemplate(template: InsertServiceTemplate): Promise<ServiceTemplate> {
+    const [created] = await db
+      .insert(serviceTemplates)
+      .values({ ...template, weekOfMonth: template.recurrence === "monthly" ? template.weekOfMonth ?? null : null })
+      .returning();
+    return created;
+  }
+
+  async deleteServiceTemplate(id: string): Promise<void> {
+    await db.delete(serviceTemplateOccurrences).where(eq(serviceTemplateOccurrences.templateId, id));
+    await db.delete(serviceTemplates).where(eq(serviceTemplates.id, id));
+  }
+
+  async getServiceTemplateForService(serviceId: string): Promise<ServiceTemplate | undefined> {
+    const [row] = await db
+      .select({ template: serviceTemplates })
+      .from(serviceTemplateOccurrences)
+      .innerJoin(serviceTemplates, eq(serviceTemplateOccurrences.templateId, serviceTemplates.id))
+      .where(eq(serviceTemplateOccurrences.serviceId, serviceId));
+    return row?.template || undefined;
+  }
+
+  async getTemplateOccurrenceDates(templateId: string): Promise<string[]> {
+    const rows = await db
+      .select({ date: serviceTemplateOccurrences.date })
+      .from(serviceTemplateOccurrences)
+      .where(eq(serviceTemplateOccurrences.templateId, templateId));
+    return rows.map((row) => row.date);
+  }
+
+  async createServiceFromTemplate(templateId: string, insertService: InsertService): Promise<Service> {
+    return await db.transaction(async (tx) => {
+      const [service] = await tx.insert(services).values(insertService).returning();
+      await tx.insert(serviceTemplateOccurrences).values({
+        serviceId: service.id,
+        templateId,
+        date: service.date,
+      });
+      return service;
+    });
+  }
+
+  async getSongPlays(): Promise<SongPlay[]> {
+    const rows = await db
+      .select({
+        songId: serviceSongs.songId,
+        date: services.date,
+        transposedKey: serviceSongs.transposedKey,
+        originalKey: songs.originalKey,
+      })
+      .from(serviceSongs)
+      .innerJoin(services, eq(serviceSongs.serviceId, services.id))
+      .innerJoin(songs, eq(serviceSongs.songId, songs.id));
+
+    return rows.map((row) => ({
+      songId: row.songId,
+      date: row.date,
+      key: row.transposedKey || row.originalKey,
+    }));
+  }
+
+  async getSongCopyright(songId: string): Promise<SongCopyright | undefined> {
+    const [copyright] = await db.select().from(songCopyrights).where(eq(songCopyrights.songId, songId));
+    return copyright || undefined;
+  }
+
+  async getSongCopyrights(): Promise<SongCopyright[]> {
+    return await db.select().from(songCopyrights);
+  }
+
+  async upsertSongCopyright(songId: string, data: InsertSongCopyright): Promise<SongCopyright> {
+    const values = {
+      ccliNumber: data.ccliNumber || null,
+      authors: data.authors || null,
+      publisher: data.publisher || null,
+      copyright: data.copyright || null,
+      updatedAt: new Date(),
+    };
+    const [copyright] = await db
+      .insert(songCopyrights)
+      .values({ songId, ...values })
+      .onConflictDoUpdate({ target: songCopyrights.songId, set: values })
+      .returning();
+    return copyright;
+  }
+
+  async getServiceRevision(serviceId: string): Promise<number> {
+    const [row] = await db.select().from(serviceRevisions).where(eq(serviceRevisions.serviceId, serviceId));
+    return row?.revision ?? 0;
+  }
+
+  async incrementServiceRevision(serviceId: string): Promise<number> {
+    const [row] = await db
+      .insert(serviceRevisions)
+      .values({ serviceId, revision: 1 })
+      .onConflictDoUpdate({
+        target: serviceRevisions.serviceId,
+        set: { revision: sql`${serviceRevisions.revision} + 1` },
+      })
+      .returning();
+    return row.revision;
+  }
+
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [created] = await db.insert(emailOutbox).values(email).returning();
+    return created;
+  }
+
+  async getOutboxEmail(id: string): Promise<OutboxEmail | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email || undefined;
+  }
+
+  async getOutboxEmails(filters: { userId?: string; status?: EmailStatus; limit: number }): Promise<OutboxEmailSummary[]> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(emailOutbox.userId, filters.userId));
+    if (filters.status) conditions.push(eq(emailOutbox.status, filters.status));
+
+    return await db
+      .select({
+        id: emailOutbox.id,
+        userId: emailOutbox.userId,
+        kind: emailOutbox.kind,
+        to: emailOutbox.to,
+        subject: emailOutbox.subject,
+        status: emailOutbox.status,
+        attempts: emailOutbox.attempts,
+        lastError: emailOutbox.lastError,
+        nextAttemptAt: emailOutbox.nextAttemptAt,
+        sentAt: emailOutbox.sentAt,
+        createdAt: emailOutbox.createdAt,
+      })
+      .from(emailOutbox)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(filters.limit);
+  }
+
+  async getDueOutboxEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "queued"), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateOutboxEmail(id: string, data: Partial<InsertOutboxEmail>): Promise<OutboxEmail | undefined> {
+    const [updated] = await db.update(emailOutbox).set(data).where(eq(emailOutbox.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async redactOutboxEmails(kinds: readonly EmailKind[], placeholder: string): Promise<number> {
+    const redacted = await db
+      .update(emailOutbox)
+      .set({ html: placeholder, text: null })
+      .where(and(inArray(emailOutbox.kind, [...kinds]), ne(emailOutbox.status, "queued"), ne(emailOutbox.html, placeholder)))
+      .returning({ id: emailOutbox.id });
+    return redacted.length;
+  }
+
+  async supersedeQueuedOutboxEmails(userId: string, kind: EmailKind, reason: string, placeholder: string): Promise<number> {
+    const superseded = await db
+      .update(emailOutbox)
+      .set({ status: "failed", lastError: reason, html: placeholder, text: null })
+      .where(and(eq(emailOutbox.userId, userId), eq(emailOutbox.kind, kind), eq(emailOutbox.status, "queued")))
+      .returning({ id: emailOutbox.id });
+    return superseded.length;
+  }
+
+  async getChurchSettings(): Promise<ChurchSettings> {
+    const [settings] = await db.select().from(churchSettings).where(eq(churchSettings.id, DEFAULT_CHURCH_SETTINGS.id));
+    return settings || { ...DEFAULT_CHURCH_SETTINGS, updatedAt: new Date() };
+  }
+
+  async updateChurchSettings(data: UpdateChurchSettings): Promise<ChurchSettings> {
+    const values = {
+      name: data.name,
+      primaryColor: data.primaryColor,
+      secondaryColor: data.secondaryColor,
+      logoUrl: data.logoUrl || null,
+      updatedAt: new Date(),
+    };
+    const [settings] = await db
+      .insert(churchSettings)
+      .values({ id: DEFAULT_CHURCH_SETTINGS.id, ...values })
+      .onConflictDoUpdate({ target: churchSettings.id, set: values })
+      .returning();
+    return settings;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const [prefs] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return prefs ? { channel: prefs.channel, reminderHours: prefs.reminderHours } : DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+
+  async getNotificationPreferencesForUsers(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+    const result = new Map<string, NotificationPreferences>();
+    if (userIds.length === 0) return result;
+
+    const rows = await db.select().from(notificationPreferences).where(inArray(notificationPreferences.userId, userIds));
+    for (const row of rows) {
+      result.set(row.userId, { channel: row.channel, reminderHours: row.reminderHours });
+    }
+    return result;
+  }
+
+  async updateNotificationPreferences(userId: string, prefs: NotificationPreferences): Promise<NotificationPreferences> {
+    const values = { channel: prefs.channel, reminderHours: prefs.reminderHours, updatedAt: new Date() };
+    const [row] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return { channel: row.channel, reminderHours: row.reminderHours };
+  }
+
+  async getSentReminders(serviceIds: string[]): Promise<ServiceReminderSent[]> {
+    if (serviceIds.length === 0) return [];
+    return await db.select().from(serviceRemindersSent).where(inArray(serviceRemindersSent.serviceId, serviceIds));
+  }
+
+  /** Records the reminders as sent and returns the lead times this call inserted (not claimed before). */
+  async claimReminders(serviceId: string, userId: string, offsetHours: number[]): Promise<number[]> {
+    if (offsetHours.length === 0) return [];
+    const claimed = await db
+      .insert(serviceRemindersSent)
+      .values(offsetHours.map((hours) => ({ serviceId, userId, offsetHours: hours })))
+      .onConflictDoNothing()
+      .returning({ offsetHours: serviceRemindersSent.offsetHours });
+    return claimed.map((row) => row.offsetHours);
+  }
+
+  async getLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier)));
+    return throttle || undefined;
+  }
+
+  /**
+   * Counts one failed login in a single statement, so concurrent failures
+   * can't overwrite each other's increments. The counter starts over once an
+   * earlier lockout has ended or no failure happened since `resetBefore`.
+   */
+  async incrementLoginThrottle(
+    scope: LoginThrottleScope,
+    identifier: string,
+    now: Date,
+    policy: LoginThrottleIncrement,
+  ): Promise<LoginThrottle> {
+    // Timestamps are written as UTC wall time, the way drizzle stores these columns.
+    const at = (date: Date) => sql`${date.toISOString()}::timestamp`;
+    const expired = sql`(${loginThrottles.lockedUntil} IS NOT NULL AND ${loginThrottles.lockedUntil} <= ${at(now)})
+      OR (${loginThrottles.lockedUntil} IS NULL AND ${loginThrottles.lastFailureAt} < ${at(policy.resetBefore)})`;
+    const failures = sql`CASE WHEN ${expired} THEN 1 ELSE ${loginThrottles.failures} + 1 END`;
+
+    const [saved] = await db
+      .insert(loginThrottles)
+      .values({
+        scope,
+        identifier,
+        failures: 1,
+        lastFailureAt: now,
+        lockedUntil: policy.lockoutAfter <= 1 ? policy.lockedUntil : null,
+      })
+      .onConflictDoUpdate({
+        target: [loginThrottles.scope, loginThrottles.identifier],
+        set: {
+          failures,
+          lastFailureAt: now,
+          lockedUntil: sql`CASE WHEN ${failures} >= ${policy.lockoutAfter} THEN ${at(policy.lockedUntil)} ELSE NULL END`,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<boolean> {
+    const result = await db
+      .delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getLockedLoginThrottles(scope: LoginThrottleScope, now: Date): Promise<LoginThrottle[]> {
+    return await db
+      .select()
+      .from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), gt(loginThrottles.lockedUntil, now)))
+      .orderBy(desc(loginThrottles.lockedUntil));
+  }
+
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  async getAuditEntries(filters: AuditFilters): Promise<AuditEntry[]> {
+    const conditions = [];
+    if (filters.actorId) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.targetType) conditions.push(eq(auditLog.targetType, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditLog.targetId, filters.targetId));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.before) conditions.push(lt(auditLog.createdAt, filters.before));
+
+    return await db
+      .select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor || undefined;
+  }
+
+  async saveUserTwoFactor(
+    userId: string,
+    data: Pick<UserTwoFactor, "secret" | "enabledAt" | "lastUsedStep">
+  ): Promise<UserTwoFactor> {
+    const [twoFactor] = await db
+      .insert(userTwoFactor)
+      .values({ userId, ...data })
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: data })
+      .returning();
+    return twoFactor;
+  }
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    if (codeHashes.length === 0) return;
+    await db.insert(twoFactorRecoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(twoFactorRecoveryCodes.userId, userId),
+          eq(twoFactorRecoveryCodes.codeHash, codeHash),
+          isNull(twoFactorRecoveryCodes.usedAt)
+        )
+      )
+      .returning();
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async getSecuritySettings(): Promise<SecuritySettings> {
+    const [settings] = await db.select().from(securitySettings).where(eq(securitySettings.id, DEFAULT_SECURITY_SETTINGS.id));
+    return settings || { ...DEFAULT_SECURITY_SETTINGS, updatedAt: new Date() };
+  }
+
+  async updateSecuritySettings(data: UpdateSecuritySettings): Promise<SecuritySettings> {
+    const values = { ...data, updatedAt: new Date() };
+    const [settings] = await db
+      .insert(securitySettings)
+      .values({ id: DEFAULT_SECURITY_SETTINGS.id, ...values })
+      .onConflictDoUpdate({ target: securitySettings.id, set: values })
+      .returning();
+    return settings;
+  }
+
+  async getUserSessions(userId: string, now: Date): Promise<StoredSession[]> {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessionUserId, userId), gt(sessions.expire, now)))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSessions(sids: string[]): Promise<number> {
+    if (sids.length === 0) return 0;
+    const deleted = await db.delete(sessions).where(inArray(sessions.sid, sids)).returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<string[]> {
+    const deleted = await db
+      .delete(sessions)
+      .where(exceptSid ? and(eq(sessionUserId, userId), ne(sessions.sid, exceptSid)) : eq(sessionUserId, userId))
+      .returning({ sid: sessions.sid });
+    return deleted.map((session) => session.sid);
+  }
 }
 
 export const storage = new DatabaseStorage();
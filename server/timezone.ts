@@ -0,0 +1,60 @@
+export const DEFAULT_APP_TIMEZONE = "America/Sao_Paulo";
+
+/** Timezone the church lives in; service dates and "today" are read in it, not in the server's. */
+export const APP_TIMEZONE = process.env.APP_TIMEZONE || DEFAULT_APP_TIMEZONE;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Calendar date ("YYYY-MM-DD") at `now` in the given timezone. */
+export function toZonedDateString(now: Date, timeZone: string = APP_TIMEZONE): string {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now);
+}
+
+export function todayInAppTimezone(now: Date = new Date()): string {
+  return toZonedDateString(now);
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant.
+function zoneOffsetMs(at: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (at.getTime() - at.getMilliseconds());
+}
+
+/** The instant a local date ("YYYY-MM-DD") and time ("HH:MM") in the given timezone refer to. */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string = APP_TIMEZONE): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = (time || "00:00").split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  // The second pass picks up a daylight saving change between the guess and the answer.
+  const guess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffsetMs(new Date(guess), timeZone));
+}
+
+/** The instants a calendar day ("YYYY-MM-DD") starts and ends (exclusive) in the given timezone. */
+export function zonedDayBounds(date: string, timeZone: string = APP_TIMEZONE): { start: Date; end: Date } {
+  const [year, month, day] = date.split("-").map(Number);
+  const nextDay = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+  return { start: zonedTimeToUtc(date, "00:00", timeZone), end: zonedTimeToUtc(nextDay, "00:00", timeZone) };
+}
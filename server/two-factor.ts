@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl } from "./totp";
+import {
+  RECOVERY_CODE_COUNT,
+  TWO_FACTOR_POLICY_ROLES,
+  type SecuritySettings,
+  type TwoFactorEnrollment,
+  type TwoFactorStatus,
+  type UpdateSecuritySettings,
+} from "@shared/two-factor";
+import type { User } from "@shared/schema";
+import type { UserRole } from "@shared/permissions";
+
+export type SecondFactorMethod = "totp" | "recovery-code";
+
+// Read on every API request by admins and leaders, so kept in memory once loaded.
+let cachedSettings: SecuritySettings | null = null;
+
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  if (!cachedSettings) {
+    cachedSettings = await storage.getSecuritySettings();
+  }
+  return cachedSettings;
+}
+
+export async function updateSecuritySettings(data: UpdateSecuritySettings): Promise<SecuritySettings> {
+  cachedSettings = await storage.updateSecuritySettings(data);
+  return cachedSettings;
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  if (!TWO_FACTOR_POLICY_ROLES.includes(role)) return false;
+  return (await getSecuritySettings()).requireTwoFactorForLeaders;
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  return !!twoFactor?.enabledAt;
+}
+
+/** True when the policy covers the user's role but they haven't enrolled yet. */
+export async function needsTwoFactorSetup(user: Pick<User, "id" | "role">): Promise<boolean> {
+  return (await isTwoFactorRequired(user.role)) && !(await isTwoFactorEnabled(user.id));
+}
+
+export async function getTwoFactorStatus(user: Pick<User, "id" | "role">): Promise<TwoFactorStatus> {
+  const enabled = await isTwoFactorEnabled(user.id);
+  return {
+    enabled,
+    required: await isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+  };
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/** "k3f9a-x7m2q": ten random characters, grouped so they're easy to copy by hand. */
+function generateRecoveryCode(): string {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  let code = "";
+  for (let i = 0; i < 10; i++) {
+    code += alphabet[crypto.randomInt(alphabet.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+/** Creates (or replaces) a pending secret; 2FA only turns on once a code from it is confirmed. */
+export async function startTwoFactorEnrollment(user: Pick<User, "id" | "email">): Promise<TwoFactorEnrollment> {
+  const secret = generateTotpSecret();
+  await storage.saveUserTwoFactor(user.id, { secret, enabledAt: null, lastUsedStep: null });
+
+  const { name } = await storage.getChurchSettings();
+  const otpauthUrl = buildOtpAuthUrl(name, user.email, secret);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+/** Returns the recovery codes (shown once) when the code matches the pending secret, otherwise null. */
+export async function confirmTwoFactorEnrollment(userId: string, code: string, now = new Date()): Promise<string[] | null> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor || twoFactor.enabledAt) return null;
+
+  const step = verifyTotp(twoFactor.secret, code, now);
+  if (step === null) return null;
+
+  await storage.saveUserTwoFactor(userId, { secret: twoFactor.secret, enabledAt: now, lastUsedStep: step });
+  return regenerateRecoveryCodes(userId);
+}
+
+/** Checks a code from the authenticator app or an unused recovery code (which is then spent). */
+export async function verifySecondFactor(userId: string, code: string, now = new Date()): Promise<SecondFactorMethod | null> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor?.enabledAt) return null;
+
+  const step = verifyTotp(twoFactor.secret, code, now, twoFactor.lastUsedStep);
+  if (step !== null) {
+    await storage.saveUserTwoFactor(userId, { secret: twoFactor.secret, enabledAt: twoFactor.enabledAt, lastUsedStep: step });
+    return "totp";
+  }
+
+  if (normalizeRecoveryCode(code).length === 10 && (await storage.consumeRecoveryCode(userId, hashRecoveryCode(code)))) {
+    return "recovery-code";
+  }
+  return null;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await storage.deleteUserTwoFactor(userId);
+}
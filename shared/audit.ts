@@ -0,0 +1,115 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { users } from "./schema";
+
+export const AUDIT_TARGET_TYPES = [
+  "auth",
+  "user",
+  "song",
+  "service",
+  "service-template",
+  "church",
+  "security",
+  "email",
+  "availability",
+  "notification-preferences",
+] as const;
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export const AUDIT_TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  auth: "Acesso",
+  user: "Membro",
+  song: "Musica",
+  service: "Culto",
+  "service-template": "Modelo de culto",
+  church: "Igreja",
+  security: "Seguranca",
+  email: "Email",
+  availability: "Disponibilidade",
+  "notification-preferences": "Lembretes",
+};
+
+export const AUDIT_ACTION_LABELS = {
+  "auth.login": "Login",
+  "auth.login-failed": "Login recusado",
+  "auth.logout": "Logout",
+  "auth.register": "Ativou a conta",
+  "auth.password-reset": "Redefiniu a senha",
+  "auth.password-change": "Alterou a senha",
+  "auth.unlock": "Desbloqueou login",
+  "auth.two-factor-enable": "Ativou 2FA",
+  "auth.two-factor-disable": "Desativou 2FA",
+  "auth.recovery-codes-regenerate": "Gerou novos codigos de recuperacao",
+  "auth.session-revoke": "Encerrou sessao",
+  "auth.sessions-revoke-others": "Encerrou outras sessoes",
+  "user.create": "Cadastrou membro",
+  "user.block": "Bloqueou membro",
+  "user.unblock": "Desbloqueou membro",
+  "user.delete": "Removeu membro",
+  "user.role-change": "Alterou papel do membro",
+  "user.password-reset-request": "Enviou reset de senha",
+  "song.create": "Criou musica",
+  "song.import": "Importou musica",
+  "song.update": "Editou musica",
+  "song.revision-restore": "Restaurou versao",
+  "song.copyright-update": "Editou direitos autorais",
+  "song.delete": "Removeu musica",
+  "service.create": "Criou culto",
+  "service.update": "Editou culto",
+  "service.delete": "Removeu culto",
+  "service.song-add": "Adicionou musica ao culto",
+  "service.song-update": "Alterou musica do culto",
+  "service.song-remove": "Removeu musica do culto",
+  "service.reorder": "Reordenou repertorio",
+  "service.team-add": "Escalou membro",
+  "service.team-remove": "Removeu da escala",
+  "service.live-start": "Iniciou modo ao vivo",
+  "service.live-end": "Encerrou modo ao vivo",
+  "service-template.create": "Criou modelo",
+  "service-template.delete": "Removeu modelo",
+  "service-template.generate": "Gerou cultos do modelo",
+  "church.update": "Editou dados da igreja",
+  "security.update": "Alterou politica de seguranca",
+  "setup.complete": "Concluiu a configuracao inicial",
+  "email.resend": "Reenviou email",
+  "availability.blockout-create": "Registrou ausencia",
+  "availability.blockout-delete": "Removeu ausencia",
+  "availability.recurring-create": "Registrou indisponibilidade",
+  "availability.recurring-delete": "Removeu indisponibilidade",
+  "notification-preferences.update": "Alterou lembretes",
+} as const;
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS;
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Null for anonymous requests (failed logins, invitation and reset links).
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  // Kept so entries stay readable after the actor is deleted.
+  actorName: text("actor_name"),
+  action: text("action").$type<AuditAction>().notNull(),
+  targetType: text("target_type").$type<AuditTargetType>().notNull(),
+  targetId: text("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_log_created_at_idx").on(table.createdAt),
+  index("audit_log_target_idx").on(table.targetType, table.targetId),
+]);
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+
+export type AuditFilters = {
+  actorId?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: Date;
+  /** Exclusive upper bound. */
+  before?: Date;
+  limit: number;
+  offset: number;
+};
@@ -0,0 +1,105 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { users } from "./schema";
+
+export const userBlockouts = pgTable("user_blockouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// weekOfMonth: 1-5 for the nth occurrence of the weekday in the month, -1 for
+// the last one, null for every week.
+export const userRecurringUnavailability = pgTable("user_recurring_unavailability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekday: integer("weekday").notNull(),
+  weekOfMonth: integer("week_of_month"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data invalida");
+
+export const insertBlockoutSchema = z
+  .object({
+    startDate: isoDate,
+    endDate: isoDate,
+    reason: z.string().max(200).optional(),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "A data final deve ser igual ou posterior a inicial",
+    path: ["endDate"],
+  });
+
+export const insertRecurringUnavailabilitySchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  weekOfMonth: z.union([z.number().int().min(1).max(5), z.literal(-1)]).nullable().optional(),
+});
+
+export type UserBlockout = typeof userBlockouts.$inferSelect;
+export type InsertBlockout = z.infer<typeof insertBlockoutSchema>;
+export type UserRecurringUnavailability = typeof userRecurringUnavailability.$inferSelect;
+export type InsertRecurringUnavailability = z.infer<typeof insertRecurringUnavailabilitySchema>;
+
+export type UserAvailability = {
+  blockouts: UserBlockout[];
+  recurring: UserRecurringUnavailability[];
+};
+
+export type MemberUnavailability = {
+  userId: string;
+  reason: string;
+};
+
+export const WEEKDAY_LABELS = ["Domingo", "Segunda", "Terca", "Quarta", "Quinta", "Sexta", "Sabado"];
+
+const ORDINALS: Record<number, [string, string]> = {
+  1: ["Primeiro", "Primeira"],
+  2: ["Segundo", "Segunda"],
+  3: ["Terceiro", "Terceira"],
+  4: ["Quarto", "Quarta"],
+  5: ["Quinto", "Quinta"],
+  [-1]: ["Ultimo", "Ultima"],
+};
+
+export function describeRecurring(rule: Pick<UserRecurringUnavailability, "weekday" | "weekOfMonth">): string {
+  const weekday = (WEEKDAY_LABELS[rule.weekday] ?? "").toLowerCase();
+  const masculine = rule.weekday === 0 || rule.weekday === 6;
+  if (rule.weekOfMonth == null) return `${masculine ? "Todo" : "Toda"} ${weekday}`;
+  const [male, female] = ORDINALS[rule.weekOfMonth] ?? ["", ""];
+  return `${masculine ? male : female} ${weekday} do mes`;
+}
+
+export function matchesRecurring(date: string, rule: Pick<UserRecurringUnavailability, "weekday" | "weekOfMonth">): boolean {
+  const [year, month, day] = date.split("-").map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCDay() !== rule.weekday) return false;
+  if (rule.weekOfMonth == null) return true;
+  if (rule.weekOfMonth === -1) {
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return day + 7 > daysInMonth;
+  }
+  return Math.ceil(day / 7) === rule.weekOfMonth;
+}
+
+/**
+ * Returns a human readable reason when the availability rules block the
+ * given YYYY-MM-DD date, or null when the member is available.
+ */
+export function getUnavailabilityReason(date: string, availability: UserAvailability): string | null {
+  for (const blockout of availability.blockouts) {
+    if (blockout.startDate <= date && date <= blockout.endDate) {
+      return blockout.reason || "Ausente neste periodo";
+    }
+  }
+  for (const rule of availability.recurring) {
+    if (matchesRecurring(date, rule)) {
+      return describeRecurring(rule);
+    }
+  }
+  return null;
+}
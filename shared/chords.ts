@@ -0,0 +1,242 @@
+export const KEYS_MAJOR = [
+  "C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B"
+];
+export const KEYS_MINOR = [
+  "Cm", "C#m", "Dbm", "Dm", "D#m", "Ebm", "Em", "Fm", "F#m", "Gbm", "Gm", "G#m", "Abm", "Am", "A#m", "Bbm", "Bm"
+];
+export const KEYS = [...KEYS_MAJOR, ...KEYS_MINOR];
+
+export type ChordQuality = "major" | "minor" | "diminished" | "half-diminished" | "augmented" | "suspended" | "power";
+
+export interface Chord {
+  root: string;
+  quality: ChordQuality;
+  /** Quality as written in the source (e.g. "m", "min", "°"), kept so formatting round-trips. */
+  qualitySymbol: string;
+  extensions: string;
+  bass: string | null;
+}
+
+export interface MusicalKey {
+  tonic: string;
+  minor: boolean;
+}
+
+const LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
+const NOTE_NAMES_SHARP = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const NOTE_NAMES_FLAT = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+// Scale degree (0-6) used to spell each semitone above the tonic. Chromatic
+// notes are spelled as b2, b3, #4, b6 and b7, which also yields the natural
+// 3rd, 6th and leading tone when the key is minor.
+const DEGREE_BY_INTERVAL = [0, 1, 1, 2, 2, 3, 3, 4, 5, 5, 6, 6];
+const DIATONIC_MAJOR = new Set([0, 2, 4, 5, 7, 9, 11]);
+const DIATONIC_MINOR = new Set([0, 2, 3, 5, 7, 8, 10]);
+const AWKWARD_SPELLINGS = new Set(["Cb", "Fb", "E#", "B#"]);
+
+const NOTE_PATTERN = "[A-G](?:#|b)?";
+const QUALITY_PATTERN = "maj|min|dim|aug|sus|m|M|°|º|ø|\\+|-";
+const EXTENSION_PATTERN = "(?:m|M|maj|min|dim|aug|sus|add|7M|7m|7|9|11|13|6|5|4|2|[#b](?:13|11|9|5)|\\+|\\-|°|ø|º|\\([0-9#b+\\-\\/]+\\))*";
+
+export const CHORD_SOURCE = `${NOTE_PATTERN}${EXTENSION_PATTERN}(?:\\/${NOTE_PATTERN})?`;
+
+const CHORD_REGEX = new RegExp(`^${CHORD_SOURCE}$`);
+const CHORD_PARTS_REGEX = new RegExp(`^(${NOTE_PATTERN})(${QUALITY_PATTERN})?(.*?)(?:\\/(${NOTE_PATTERN}))?$`);
+// A chord inside a bare chord line must stand alone, so "Coda" is not read as C + "oda".
+const CHORD_IN_LINE_REGEX = new RegExp(`(^|[\\s|(])(${CHORD_SOURCE})(?=$|[\\s|)])`, "g");
+const SECTION_MARKER_REGEX = /\[(Intro|Verse|Chorus|Bridge|Refrão|Ponte|Solo|Tab|Instrumental|Pre-Chorus|Pré-Refrão|Outro|Final)\]/gi;
+const BRACKET_CHORD_REGEX = /\[([A-G][#b]?[^\]]*)\]/g;
+
+export function noteToPitch(note: string): number | undefined {
+  const match = note.match(/^([A-G])(#{1,2}|b{1,2})?$/);
+  if (!match) return undefined;
+  const [, letter, accidental = ""] = match;
+  const offset = accidental.startsWith("#") ? accidental.length : -accidental.length;
+  return (LETTER_PITCHES[LETTERS.indexOf(letter)] + offset + 12) % 12;
+}
+
+export function parseKey(key: string): MusicalKey | null {
+  const match = key.trim().match(/^([A-G][#b]?)(m)?$/);
+  if (!match) return null;
+  return { tonic: match[1], minor: match[2] === "m" };
+}
+
+export function semitonesBetween(fromKey: string, toKey: string): number {
+  const from = parseKey(fromKey);
+  const to = parseKey(toKey);
+  if (!from || !to) return 0;
+  const fromPitch = noteToPitch(from.tonic);
+  const toPitch = noteToPitch(to.tonic);
+  if (fromPitch === undefined || toPitch === undefined) return 0;
+  return (toPitch - fromPitch + 12) % 12;
+}
+
+function prefersFlats(key: MusicalKey): boolean {
+  if (key.tonic.includes("b")) return true;
+  if (key.tonic.includes("#")) return false;
+  const tonicPitch = noteToPitch(key.tonic) ?? 0;
+  const relativeMajor = key.minor ? (tonicPitch + 3) % 12 : tonicPitch;
+  return NOTE_NAMES_FLAT[relativeMajor] === "F" || NOTE_NAMES_FLAT[relativeMajor].includes("b");
+}
+
+/**
+ * Spells a pitch class (0-11) the way it is written in the given key, falling
+ * back to plain sharps/flats when the key is unknown, when the spelling would
+ * need a double accidental, or when a chromatic note would read as Cb/Fb/E#/B#.
+ */
+export function spellPitch(pitch: number, key?: MusicalKey | null): string {
+  const normalized = ((pitch % 12) + 12) % 12;
+  if (!key) return NOTE_NAMES_SHARP[normalized];
+
+  const tonicPitch = noteToPitch(key.tonic);
+  if (tonicPitch === undefined) return NOTE_NAMES_SHARP[normalized];
+
+  const interval = (normalized - tonicPitch + 12) % 12;
+  const letterIndex = (LETTERS.indexOf(key.tonic[0]) + DEGREE_BY_INTERVAL[interval]) % 7;
+  let offset = normalized - LETTER_PITCHES[letterIndex];
+  if (offset > 6) offset -= 12;
+  if (offset < -6) offset += 12;
+
+  const fallback = prefersFlats(key) ? NOTE_NAMES_FLAT[normalized] : NOTE_NAMES_SHARP[normalized];
+  if (Math.abs(offset) > 1) return fallback;
+
+  const spelled = LETTERS[letterIndex] + (offset === 1 ? "#" : offset === -1 ? "b" : "");
+  const diatonic = (key.minor ? DIATONIC_MINOR : DIATONIC_MAJOR).has(interval);
+  if (!diatonic && AWKWARD_SPELLINGS.has(spelled)) return fallback;
+  return spelled;
+}
+
+function qualityFromSymbol(symbol: string, extensions: string): ChordQuality {
+  switch (symbol) {
+    case "m":
+    case "min":
+    case "-":
+      return "minor";
+    case "dim":
+    case "°":
+    case "º":
+      return "diminished";
+    case "ø":
+      return "half-diminished";
+    case "aug":
+    case "+":
+      return "augmented";
+    case "sus":
+      return "suspended";
+  }
+  if (extensions === "5") return "power";
+  return "major";
+}
+
+export function isChordToken(token: string): boolean {
+  return CHORD_REGEX.test(token.trim());
+}
+
+/** Splits a chord into its parts; anything `isChordToken` rejects (e.g. "Bridge") is null. */
+export function parseChord(token: string): Chord | null {
+  const trimmed = token.trim();
+  if (!CHORD_REGEX.test(trimmed)) return null;
+  const match = trimmed.match(CHORD_PARTS_REGEX);
+  if (!match) return null;
+
+  const [, root, rawQuality = "", rest, bass] = match;
+  // A leading "M"/"maj" marks a major seventh, not a quality, so it stays with the extensions.
+  const qualitySymbol = rawQuality === "M" || rawQuality === "maj" ? "" : rawQuality;
+  const extensions = rawQuality === "M" || rawQuality === "maj" ? rawQuality + rest : rest;
+
+  return {
+    root,
+    quality: qualityFromSymbol(qualitySymbol, extensions),
+    qualitySymbol,
+    extensions,
+    bass: bass ?? null,
+  };
+}
+
+export function formatChord(chord: Chord): string {
+  return chord.root + chord.qualitySymbol + chord.extensions + (chord.bass ? `/${chord.bass}` : "");
+}
+
+export function transposeNote(note: string, semitones: number, targetKey?: string): string {
+  const pitch = noteToPitch(note);
+  if (pitch === undefined) return note;
+  return spellPitch(pitch + semitones, targetKey ? parseKey(targetKey) : null);
+}
+
+export function transposeChord(chord: string, semitones: number, targetKey?: string): string {
+  const parsed = parseChord(chord);
+  if (!parsed) return chord;
+
+  return formatChord({
+    ...parsed,
+    root: transposeNote(parsed.root, semitones, targetKey),
+    bass: parsed.bass ? transposeNote(parsed.bass, semitones, targetKey) : null,
+  });
+}
+
+export function isChordOnlyLine(line: string): boolean {
+  const cleanLine = line
+    .replace(SECTION_MARKER_REGEX, "")
+    .replace(/[|\-–—]/g, " ");
+  if (cleanLine.includes("[") && cleanLine.includes("]")) return false;
+  const tokens = cleanLine.trim().split(/\s+/).filter(t => t.length > 0);
+  if (tokens.length === 0) return false;
+  const chordTokens = tokens.filter(t => isChordToken(t));
+  return chordTokens.length > 0 && chordTokens.length >= tokens.length * 0.5;
+}
+
+/** Label of a line holding only a bracketed section name such as "[Refrão]". */
+export function getSectionLabel(line: string): string | undefined {
+  const match = line.trim().match(/^\[([^\]]+)\]$/);
+  if (!match) return undefined;
+  const label = match[1].trim();
+  return isChordToken(label) ? undefined : label;
+}
+
+function bracketChordLine(line: string, semitones: number, targetKey?: string): string {
+  return line.replace(CHORD_IN_LINE_REGEX, (match, lead: string, chord: string) =>
+    isChordToken(chord) ? `${lead}[${transposeChord(chord, semitones, targetKey)}]` : match,
+  );
+}
+
+/**
+ * Transposes `[Chord]Lyric` content from one key to another. Bare chord-only
+ * lines (as pasted from Cifraclub) are converted to bracketed chords on the way;
+ * brackets that don't hold a chord, such as "[Coro]", are left as they are.
+ */
+export function transposeContent(content: string, fromKey: string, toKey: string): string {
+  if (!parseKey(fromKey) || !parseKey(toKey)) return content;
+  const semitones = semitonesBetween(fromKey, toKey);
+
+  return content.split("\n").map(line => {
+    if (isChordOnlyLine(line)) {
+      return bracketChordLine(line, semitones, toKey);
+    }
+    return line.replace(BRACKET_CHORD_REGEX, (_, chord) => `[${transposeChord(chord, semitones, toKey)}]`);
+  }).join("\n");
+}
+
+/**
+ * Splits a `[Chord]Lyric` line into a chord row aligned above the lyric row,
+ * for monospaced rendering.
+ */
+export function layoutChordLine(line: string): { chordLine: string; lyricLine: string; hasChords: boolean } {
+  const chordMatches = Array.from(line.matchAll(/\[([^\]]+)\]/g));
+  if (chordMatches.length === 0) {
+    return { chordLine: "", lyricLine: line, hasChords: false };
+  }
+
+  let chordLine = "";
+  let lyricLine = "";
+  let lastIndex = 0;
+
+  for (const match of chordMatches) {
+    lyricLine += line.substring(lastIndex, match.index);
+    chordLine = chordLine.padEnd(lyricLine.length, " ") + match[1];
+    lastIndex = (match.index || 0) + match[0].length;
+  }
+
+  lyricLine += line.substring(lastIndex);
+  return { chordLine, lyricLine, hasChords: true };
+}
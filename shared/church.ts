@@ -0,0 +1,40 @@
+import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+// Single-row table (id "default") with the church profile used for branding.
+export const churchSettings = pgTable("church_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  name: text("name").notNull(),
+  primaryColor: text("primary_color").notNull(),
+  secondaryColor: text("secondary_color").notNull(),
+  logoUrl: text("logo_url"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ChurchSettings = typeof churchSettings.$inferSelect;
+
+export const DEFAULT_CHURCH_SETTINGS: Omit<ChurchSettings, "updatedAt"> = {
+  id: "default",
+  name: "Louvor App",
+  primaryColor: "#6b46c1",
+  secondaryColor: "#f4f4f4",
+  logoUrl: null,
+};
+
+const hexColor = z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, "Cor deve estar no formato #RRGGBB");
+
+export const updateChurchSettingsSchema = z.object({
+  name: z.string().trim().min(1, "Nome e obrigatorio").max(100),
+  primaryColor: hexColor,
+  secondaryColor: hexColor,
+  logoUrl: z
+    .string()
+    .trim()
+    .max(500)
+    .regex(/^https?:\/\//, "Logo deve ser uma URL http(s)")
+    .nullable()
+    .optional()
+    .or(z.literal("")),
+});
+
+export type UpdateChurchSettings = z.infer<typeof updateChurchSettingsSchema>;
@@ -0,0 +1,22 @@
+import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { songs } from "./schema";
+
+export const songCopyrights = pgTable("song_copyrights", {
+  songId: varchar("song_id").primaryKey().references(() => songs.id, { onDelete: "cascade" }),
+  ccliNumber: text("ccli_number"),
+  authors: text("authors"),
+  publisher: text("publisher"),
+  copyright: text("copyright"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSongCopyrightSchema = z.object({
+  ccliNumber: z.string().trim().regex(/^\d*$/, "Numero CCLI deve conter apenas digitos").max(12).optional(),
+  authors: z.string().trim().max(300).optional(),
+  publisher: z.string().trim().max(300).optional(),
+  copyright: z.string().trim().max(300).optional(),
+});
+
+export type SongCopyright = typeof songCopyrights.$inferSelect;
+export type InsertSongCopyright = z.infer<typeof insertSongCopyrightSchema>;
@@ -0,0 +1,52 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { users } from "./schema";
+
+export const EMAIL_STATUSES = ["queued", "sent", "failed"] as const;
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+export const EMAIL_STATUS_LABELS: Record<EmailStatus, string> = {
+  queued: "Na fila",
+  sent: "Enviado",
+  failed: "Falhou",
+};
+
+export const EMAIL_KINDS = ["provisional-password", "password-reset", "service-reminder", "schedule-notification"] as const;
+export type EmailKind = (typeof EMAIL_KINDS)[number];
+
+export const EMAIL_KIND_LABELS: Record<EmailKind, string> = {
+  "provisional-password": "Senha provisoria",
+  "password-reset": "Redefinicao de senha",
+  "service-reminder": "Lembrete de culto",
+  "schedule-notification": "Aviso de escala",
+};
+
+// These carry a password or a reset link; their body is wiped once the email
+// is sent or gives up, and "Reenviar" issues a new credential instead.
+export const CREDENTIAL_EMAIL_KINDS: readonly EmailKind[] = ["provisional-password", "password-reset"];
+
+export const REDACTED_EMAIL_BODY = "[Conteudo removido apos o envio: continha uma credencial]";
+
+// Every outbound email is stored first and delivered from here, so failed
+// sends can be retried instead of being lost.
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  kind: text("kind").$type<EmailKind>(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text"),
+  status: text("status").$type<EmailStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = typeof emailOutbox.$inferInsert;
+
+/** Outbox row without the message body, as listed to admins. */
+export type OutboxEmailSummary = Omit<OutboxEmail, "html" | "text">;
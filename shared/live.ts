@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const liveUpdateSchema = z.object({
+  active: z.boolean(),
+  serviceSongId: z.string().nullable().optional(),
+  sectionIndex: z.number().int().min(0).nullable().optional(),
+  sectionLabel: z.string().max(100).nullable().optional(),
+});
+
+export type LiveUpdate = z.infer<typeof liveUpdateSchema>;
+
+export type LiveSession = {
+  active: boolean;
+  leaderId: string | null;
+  leaderName: string | null;
+  serviceSongId: string | null;
+  sectionIndex: number | null;
+  sectionLabel: string | null;
+};
+
+export const INACTIVE_LIVE_SESSION: LiveSession = {
+  active: false,
+  leaderId: null,
+  leaderName: null,
+  serviceSongId: null,
+  sectionIndex: null,
+  sectionLabel: null,
+};
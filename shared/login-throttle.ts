@@ -0,0 +1,33 @@
+import { pgTable, text, timestamp, integer, primaryKey } from "drizzle-orm/pg-core";
+
+export const LOGIN_THROTTLE_SCOPES = ["account", "ip"] as const;
+export type LoginThrottleScope = (typeof LOGIN_THROTTLE_SCOPES)[number];
+
+// Failed login counters, one row per account (lowercased email) and per client IP.
+export const loginThrottles = pgTable("login_throttles", {
+  scope: text("scope").$type<LoginThrottleScope>().notNull(),
+  identifier: text("identifier").notNull(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+}, (table) => [
+  primaryKey({ columns: [table.scope, table.identifier] }),
+]);
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+/** How one more failure updates a counter: when it starts over, and the lockout it can trigger. */
+export type LoginThrottleIncrement = {
+  resetBefore: Date;
+  lockoutAfter: number;
+  lockedUntil: Date;
+};
+
+export type LockedAccount = {
+  email: string;
+  userId: string | null;
+  userName: string | null;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string;
+};
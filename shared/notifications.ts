@@ -0,0 +1,66 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, jsonb, unique } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { services, users } from "./schema";
+
+export const REMINDER_CHANNELS = ["email", "none"] as const;
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: "Email",
+  none: "Nao receber lembretes",
+};
+
+// Lead times offered to users, in hours before the service starts.
+export const REMINDER_OFFSET_OPTIONS = [1, 3, 12, 24, 48, 72, 168] as const;
+
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  channel: text("channel").$type<ReminderChannel>().notNull().default("email"),
+  reminderHours: jsonb("reminder_hours").$type<number[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per reminder already sent, so each lead time fires once per member.
+export const serviceRemindersSent = pgTable("service_reminders_sent", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serviceId: varchar("service_id").notNull().references(() => services.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  offsetHours: integer("offset_hours").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  unique("service_reminders_sent_unique").on(table.serviceId, table.userId, table.offsetHours),
+]);
+
+export const updateNotificationPreferencesSchema = z.object({
+  channel: z.enum(REMINDER_CHANNELS),
+  reminderHours: z
+    .array(z.number().int().min(1).max(168))
+    .max(REMINDER_OFFSET_OPTIONS.length)
+    .transform((hours) => Array.from(new Set(hours)).sort((a, b) => b - a)),
+});
+
+export type NotificationPreferences = {
+  channel: ReminderChannel;
+  reminderHours: number[];
+};
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type ServiceReminderSent = typeof serviceRemindersSent.$inferSelect;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channel: "email",
+  reminderHours: [24],
+};
+
+/** "1 hora antes", "3 horas antes", "1 dia antes", "1 semana antes" */
+export function describeReminderOffset(hours: number): string {
+  if (hours % 168 === 0) {
+    const weeks = hours / 168;
+    return `${weeks} ${weeks === 1 ? "semana" : "semanas"} antes`;
+  }
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} ${days === 1 ? "dia" : "dias"} antes`;
+  }
+  return `${hours} ${hours === 1 ? "hora" : "horas"} antes`;
+}
@@ -0,0 +1,62 @@
+// What each permission allows; the keys are the ids checked by the server and the client.
+export const PERMISSION_LABELS = {
+  "songs.read": "Ver a biblioteca de musicas",
+  "songs.write": "Criar, editar e excluir musicas",
+  "songs.import": "Importar musicas (Cifraclub e ChordPro)",
+  "services.manage": "Criar e editar cultos, repertorios, modelos e escalas",
+  "services.present": "Controlar a projecao e o modo ao vivo",
+  "services.takeover": "Assumir ou encerrar o modo ao vivo conduzido por outra pessoa",
+  "members.view": "Ver a lista de membros",
+  "members.invite": "Convidar membros",
+  "members.manage": "Bloquear, excluir e resetar a senha de membros",
+  "members.roles": "Alterar o papel dos membros",
+  "emails.manage": "Ver e reenviar emails",
+  "reports.view": "Ver relatorios de uso",
+  "church.manage": "Alterar os dados da igreja",
+  "security.manage": "Politica de seguranca e logins bloqueados",
+  "audit.view": "Ver o log de auditoria",
+} as const;
+
+export type Permission = keyof typeof PERMISSION_LABELS;
+export const PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// Role ids as stored on users, from the least to the most access.
+export const ROLE_LABELS = {
+  membro: "Membro",
+  lider: "Lider",
+  admin: "Admin",
+} as const;
+
+export type UserRole = keyof typeof ROLE_LABELS;
+export const USER_ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  membro: "Visualiza cultos e repertorios",
+  lider: "Cria musicas, cultos e gerencia membros",
+  admin: "Acesso completo ao sistema",
+};
+
+/**
+ * The single source of truth for who can do what. A new role only needs an
+ * entry here and in the role maps above; routes, menus and pages check permissions.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  lider: [
+    "songs.read",
+    "songs.write",
+    "songs.import",
+    "services.manage",
+    "services.present",
+    "members.view",
+    "members.invite",
+    "members.manage",
+    "emails.manage",
+    "reports.view",
+  ],
+  membro: ["songs.read"],
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+}
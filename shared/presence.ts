@@ -0,0 +1,20 @@
+export type PresenceUser = {
+  id: string;
+  name: string;
+};
+
+export type PresenceEvent =
+  | { serviceId: string; type: "state"; viewers: PresenceUser[] }
+  | { serviceId: string; type: "joined"; user: PresenceUser }
+  | { serviceId: string; type: "left"; userId: string };
+
+/** "Ana", "Ana e Joao", "Ana, Joao e Maria", "Ana, Joao e 3 outros" */
+export function describeViewers(names: string[], shown = 2): string {
+  if (names.length === 0) return "";
+  if (names.length <= shown + 1) {
+    return names.length === 1
+      ? names[0]
+      : `${names.slice(0, -1).join(", ")} e ${names[names.length - 1]}`;
+  }
+  return `${names.slice(0, shown).join(", ")} e ${names.length - shown} outros`;
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { getSectionLabel, isChordOnlyLine, layoutChordLine } from "./chords";
+
+export const SLIDE_MODES = ["section", "lines"] as const;
+export type SlideMode = (typeof SLIDE_MODES)[number];
+
+export const projectionStateSchema = z.object({
+  slideIndex: z.number().int().min(0),
+  mode: z.enum(SLIDE_MODES),
+  linesPerSlide: z.number().int().min(1).max(12),
+  blank: z.boolean(),
+});
+
+export type ProjectionState = z.infer<typeof projectionStateSchema>;
+
+export const DEFAULT_PROJECTION_STATE: ProjectionState = {
+  slideIndex: 0,
+  mode: "section",
+  linesPerSlide: 4,
+  blank: false,
+};
+
+export type Slide = {
+  songIndex: number;
+  songTitle: string;
+  label?: string;
+  lines: string[];
+  isTitle: boolean;
+};
+
+type ProjectableSong = {
+  title: string;
+  artist?: string;
+  content: string;
+};
+
+function lyricLines(content: string): { label?: string; lines: string[] }[] {
+  const blocks: { label?: string; lines: string[] }[] = [];
+  let current: { label?: string; lines: string[] } = { lines: [] };
+
+  const flush = () => {
+    if (current.lines.length > 0) blocks.push(current);
+    current = { lines: [] };
+  };
+
+  for (const raw of content.split("\n")) {
+    const label = getSectionLabel(raw);
+    if (label) {
+      flush();
+      current = { label, lines: [] };
+      continue;
+    }
+    if (isChordOnlyLine(raw)) continue;
+
+    const { lyricLine, hasChords } = layoutChordLine(raw);
+    const text = lyricLine.replace(/\s+/g, " ").trim();
+    if (!text) {
+      if (hasChords) continue;
+      // A blank line closes the stanza; a label with no lyrics yet carries over.
+      const pendingLabel = current.lines.length > 0 ? undefined : current.label;
+      flush();
+      current.label = pendingLabel;
+      continue;
+    }
+    current.lines.push(text);
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Splits the setlist into projector slides: a title slide per song followed by
+ * its lyrics (chords stripped), one slide per section/stanza or every N lines.
+ */
+export function buildSlides(songs: ProjectableSong[], mode: SlideMode, linesPerSlide: number): Slide[] {
+  const slides: Slide[] = [];
+
+  songs.forEach((song, songIndex) => {
+    slides.push({
+      songIndex,
+      songTitle: song.title,
+      lines: song.artist ? [song.title, song.artist] : [song.title],
+      isTitle: true,
+    });
+
+    const blocks = lyricLines(song.content);
+    if (mode === "section") {
+      for (const block of blocks) {
+        slides.push({ songIndex, songTitle: song.title, label: block.label, lines: block.lines, isTitle: false });
+      }
+      return;
+    }
+
+    for (const block of blocks) {
+      for (let i = 0; i < block.lines.length; i += linesPerSlide) {
+        slides.push({
+          songIndex,
+          songTitle: song.title,
+          label: i === 0 ? block.label : undefined,
+          lines: block.lines.slice(i, i + linesPerSlide),
+          isTitle: false,
+        });
+      }
+    }
+  });
+
+  return slides;
+}
@@ -0,0 +1,23 @@
+export type SongUsageStat = {
+  songId: string;
+  title: string;
+  artist: string;
+  timesPlayed: number;
+  timesPlayedInPeriod: number;
+  lastPlayed: string | null;
+  keysUsed: string[];
+};
+
+export type SongUsagePeriod = {
+  period: string;
+  count: number;
+};
+
+export type SongUsageReport = {
+  from: string;
+  to: string;
+  unusedWeeks: number;
+  songs: SongUsageStat[];
+  periods: SongUsagePeriod[];
+  unused: SongUsageStat[];
+};
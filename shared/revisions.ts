@@ -0,0 +1,19 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { songs, users } from "./schema";
+
+export const songRevisions = pgTable("song_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  songId: varchar("song_id").notNull().references(() => songs.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  originalKey: text("original_key").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SongRevision = typeof songRevisions.$inferSelect;
+export type InsertSongRevision = typeof songRevisions.$inferInsert;
+
+export type SongRevisionWithAuthor = SongRevision & {
+  authorName: string | null;
+};
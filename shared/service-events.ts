@@ -0,0 +1,64 @@
+import { pgTable, varchar, integer } from "drizzle-orm/pg-core";
+import { services, type ServiceWithSongs, type ServiceSongWithDetails } from "./schema";
+
+// One row per service holding the revision of its last realtime event.
+export const serviceRevisions = pgTable("service_revisions", {
+  serviceId: varchar("service_id").primaryKey().references(() => services.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull().default(0),
+});
+
+export type ServiceRevision = typeof serviceRevisions.$inferSelect;
+
+/** `GET /api/services/:id` payload: the service plus the revision it reflects. */
+export type ServiceSnapshot = ServiceWithSongs & { revision: number };
+
+export type ServiceEventPayload =
+  | { type: "song-added"; serviceSong: ServiceSongWithDetails }
+  | { type: "song-removed"; serviceSongId: string }
+  | { type: "key-changed"; serviceSongId: string; transposedKey: string }
+  | { type: "reordered"; orders: { id: string; order: number }[] }
+  | { type: "service-renamed"; name: string; date: string; time: string }
+  | { type: "service-deleted" };
+
+export type ServiceEvent = ServiceEventPayload & { serviceId: string; revision: number };
+
+/**
+ * Applies a delta to a cached snapshot. Patches are idempotent so an event
+ * already reflected in a freshly fetched snapshot can be applied again safely.
+ */
+export function applyServiceEvent(snapshot: ServiceSnapshot, event: ServiceEvent): ServiceSnapshot {
+  let songs = snapshot.songs;
+  let header = {};
+
+  switch (event.type) {
+    case "song-added":
+      songs = [...songs.filter((ss) => ss.id !== event.serviceSong.id), event.serviceSong];
+      break;
+    case "song-removed":
+      songs = songs.filter((ss) => ss.id !== event.serviceSongId);
+      break;
+    case "key-changed":
+      songs = songs.map((ss) =>
+        ss.id === event.serviceSongId ? { ...ss, transposedKey: event.transposedKey } : ss
+      );
+      break;
+    case "reordered": {
+      const orders = new Map(event.orders.map((o) => [o.id, o.order]));
+      songs = songs.map((ss) => (orders.has(ss.id) ? { ...ss, order: orders.get(ss.id)! } : ss));
+      break;
+    }
+    case "service-renamed":
+      header = { name: event.name, date: event.date, time: event.time };
+      break;
+    case "service-deleted":
+      // Nothing left to patch; subscribers drop the snapshot instead.
+      break;
+  }
+
+  return {
+    ...snapshot,
+    ...header,
+    songs: [...songs].sort((a, b) => a.order - b.order),
+    revision: event.revision,
+  };
+}
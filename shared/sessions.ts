@@ -0,0 +1,23 @@
+import { pgTable, varchar, json, timestamp, index } from "drizzle-orm/pg-core";
+
+// The table connect-pg-simple keeps express-session data in; declared here so
+// sessions can be listed and revoked per user.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+export type StoredSession = typeof sessions.$inferSelect;
+
+export type ActiveSession = {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
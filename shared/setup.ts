@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { updateChurchSettingsSchema } from "./church";
+
+/** Whether the first-run setup still has to create the initial admin. */
+export type SetupStatus = { required: boolean };
+
+export const completeSetupSchema = z.object({
+  token: z.string().trim().min(1, "Token de configuracao e obrigatorio"),
+  name: z.string().trim().min(1, "Nome e obrigatorio").max(100),
+  email: z.string().trim().toLowerCase().email("Email invalido"),
+  password: z.string().min(8, "Senha deve ter no minimo 8 caracteres"),
+  church: updateChurchSettingsSchema,
+});
+
+export type CompleteSetup = z.infer<typeof completeSetupSchema>;
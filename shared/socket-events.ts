@@ -0,0 +1,20 @@
+import type { ServiceEvent } from "./service-events";
+import type { ProjectionState } from "./projection";
+import type { LiveSession } from "./live";
+import type { PresenceEvent } from "./presence";
+
+export type JoinServiceResult = { ok: true; revision: number } | { ok: false; error: string };
+
+/** Events the server pushes to clients in a `service:${id}` room. */
+export interface ServerToClientEvents {
+  "service-event": (event: ServiceEvent) => void;
+  "projection-updated": (state: ProjectionState) => void;
+  "live-updated": (session: LiveSession) => void;
+  "presence": (event: PresenceEvent) => void;
+}
+
+/** Events clients send to the server. */
+export interface ClientToServerEvents {
+  "join-service": (serviceId: string, ack?: (result: JoinServiceResult) => void) => void;
+  "leave-service": (serviceId: string) => void;
+}
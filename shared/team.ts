@@ -0,0 +1,43 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { services, users, type Service } from "./schema";
+
+export const TEAM_POSITIONS = ["vocal", "guitarra", "baixo", "teclado", "bateria", "som", "projecao"] as const;
+export type TeamPosition = (typeof TEAM_POSITIONS)[number];
+
+export const TEAM_POSITION_LABELS: Record<TeamPosition, string> = {
+  vocal: "Vocal",
+  guitarra: "Guitarra",
+  baixo: "Baixo",
+  teclado: "Teclado",
+  bateria: "Bateria",
+  som: "Som",
+  projecao: "Projeção",
+};
+
+export const serviceTeamMembers = pgTable("service_team_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serviceId: varchar("service_id").notNull().references(() => services.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  position: text("position").$type<TeamPosition>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("service_team_members_unique").on(table.serviceId, table.userId, table.position),
+]);
+
+export const insertServiceTeamMemberSchema = createInsertSchema(serviceTeamMembers, {
+  position: z.enum(TEAM_POSITIONS),
+}).omit({ id: true, createdAt: true });
+
+export type ServiceTeamMember = typeof serviceTeamMembers.$inferSelect;
+export type InsertServiceTeamMember = z.infer<typeof insertServiceTeamMemberSchema>;
+
+export type ServiceTeamMemberWithUser = ServiceTeamMember & {
+  userName: string;
+};
+
+export type ScheduledService = Service & {
+  positions: TeamPosition[];
+};
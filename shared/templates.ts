@@ -0,0 +1,156 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, jsonb, unique } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { services, insertServiceSchema } from "./schema";
+import { WEEKDAY_LABELS, describeRecurring, matchesRecurring } from "./availability";
+
+export const RECURRENCE_TYPES = ["weekly", "biweekly", "monthly"] as const;
+export type RecurrenceType = (typeof RECURRENCE_TYPES)[number];
+
+export const RECURRENCE_LABELS: Record<RecurrenceType, string> = {
+  weekly: "Semanal",
+  biweekly: "Quinzenal",
+  monthly: "Mensal (n-esimo dia da semana)",
+};
+
+export type SongSlot = {
+  label: string;
+  count: number;
+};
+
+export const DEFAULT_SONG_SLOTS: SongSlot[] = [
+  { label: "Celebração", count: 2 },
+  { label: "Ofertório", count: 1 },
+  { label: "Adoração", count: 2 },
+];
+
+// startDate anchors the recurrence: nothing is generated before it, and
+// biweekly templates count their two-week cadence from its first match.
+export const serviceTemplates = pgTable("service_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  time: text("time").notNull(),
+  recurrence: text("recurrence").$type<RecurrenceType>().notNull(),
+  weekday: integer("weekday").notNull(),
+  weekOfMonth: integer("week_of_month"),
+  startDate: text("start_date").notNull(),
+  slots: jsonb("slots").$type<SongSlot[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const serviceTemplateOccurrences = pgTable("service_template_occurrences", {
+  serviceId: varchar("service_id").primaryKey().references(() => services.id, { onDelete: "cascade" }),
+  templateId: varchar("template_id").notNull().references(() => serviceTemplates.id, { onDelete: "cascade" }),
+  date: text("date").notNull(),
+}, (table) => [
+  unique("service_template_occurrences_unique").on(table.templateId, table.date),
+]);
+
+const songSlotSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  count: z.number().int().min(1).max(10),
+});
+
+export const insertServiceTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Informe o nome do culto"),
+    time: z.string().regex(/^\d{2}:\d{2}$/, "Horario invalido"),
+    recurrence: z.enum(RECURRENCE_TYPES),
+    weekday: z.number().int().min(0).max(6),
+    weekOfMonth: z.union([z.number().int().min(1).max(5), z.literal(-1)]).nullable().optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data invalida"),
+    slots: z.array(songSlotSchema).max(20).default([]),
+  })
+  .refine((data) => data.recurrence !== "monthly" || data.weekOfMonth != null, {
+    message: "Informe a semana do mes",
+    path: ["weekOfMonth"],
+  });
+
+export const insertServiceWithTemplateSchema = insertServiceSchema.extend({
+  templateId: z.string().optional(),
+});
+
+export const generateServicesSchema = z.object({
+  count: z.number().int().min(1).max(26),
+});
+
+export type ServiceTemplate = typeof serviceTemplates.$inferSelect;
+export type InsertServiceTemplate = z.infer<typeof insertServiceTemplateSchema>;
+export type ServiceTemplateOccurrence = typeof serviceTemplateOccurrences.$inferSelect;
+export type InsertServiceWithTemplate = z.infer<typeof insertServiceWithTemplateSchema>;
+
+type RecurrenceRule = Pick<ServiceTemplate, "recurrence" | "weekday" | "weekOfMonth" | "startDate">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const weekday = (WEEKDAY_LABELS[rule.weekday] ?? "").toLowerCase();
+  switch (rule.recurrence) {
+    case "weekly":
+      return describeRecurring({ weekday: rule.weekday, weekOfMonth: null });
+    case "biweekly":
+      return `A cada duas semanas (${weekday})`;
+    case "monthly":
+      return describeRecurring({ weekday: rule.weekday, weekOfMonth: rule.weekOfMonth });
+  }
+}
+
+/**
+ * Lists the next `count` dates (YYYY-MM-DD) matching the recurrence rule,
+ * starting at `fromDate` or the rule's startDate, whichever comes later.
+ */
+export function getNextOccurrences(rule: RecurrenceRule, fromDate: string, count: number): string[] {
+  const dates: string[] = [];
+  const start = fromDate > rule.startDate ? fromDate : rule.startDate;
+
+  let anchor: Date | null = null;
+  if (rule.recurrence === "biweekly") {
+    anchor = toUtcDate(rule.startDate);
+    while (anchor.getUTCDay() !== rule.weekday) {
+      anchor = new Date(anchor.getTime() + DAY_MS);
+    }
+  }
+
+  let cursor = toUtcDate(start);
+  // Two years is far beyond any sensible generation window and keeps a bad
+  // rule from looping forever.
+  for (let i = 0; i < 731 && dates.length < count; i++) {
+    const date = toIsoDate(cursor);
+    let matches = false;
+    if (rule.recurrence === "weekly") {
+      matches = cursor.getUTCDay() === rule.weekday;
+    } else if (rule.recurrence === "biweekly" && anchor) {
+      const diffDays = Math.round((cursor.getTime() - anchor.getTime()) / DAY_MS);
+      matches = diffDays >= 0 && diffDays % 14 === 0;
+    } else if (rule.recurrence === "monthly") {
+      matches = matchesRecurring(date, { weekday: rule.weekday, weekOfMonth: rule.weekOfMonth });
+    }
+    if (matches) dates.push(date);
+    cursor = new Date(cursor.getTime() + DAY_MS);
+  }
+
+  return dates;
+}
+
+export function expandSlots(slots: SongSlot[]): string[] {
+  const labels: string[] = [];
+  for (const slot of slots) {
+    for (let i = 0; i < slot.count; i++) {
+      labels.push(slot.label);
+    }
+  }
+  return labels;
+}
+
+export function describeSlots(slots: SongSlot[]): string {
+  return slots.map((slot) => `${slot.count} ${slot.label}`).join(" · ");
+}
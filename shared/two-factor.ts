@@ -0,0 +1,69 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { users } from "./schema";
+import { USER_ROLES, hasPermission } from "./permissions";
+
+// TOTP secret per user. `enabledAt` stays null until the first code is confirmed.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Last accepted time step, so a code can't be replayed inside its window.
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use recovery codes, stored hashed.
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-row table (id "default") with account security rules set by admins.
+export const securitySettings = pgTable("security_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  requireTwoFactorForLeaders: boolean("require_two_factor_for_leaders").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type SecuritySettings = typeof securitySettings.$inferSelect;
+
+export const DEFAULT_SECURITY_SETTINGS: Omit<SecuritySettings, "updatedAt"> = {
+  id: "default",
+  requireTwoFactorForLeaders: false,
+};
+
+// Roles covered by the "require 2FA" policy: the ones that can delete songs, services or users.
+export const TWO_FACTOR_POLICY_ROLES = USER_ROLES.filter((role) =>
+  (["songs.write", "services.manage", "members.manage"] as const).some((permission) => hasPermission(role, permission))
+);
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Informe o codigo").max(32),
+});
+
+export const updateSecuritySettingsSchema = z.object({
+  requireTwoFactorForLeaders: z.boolean(),
+});
+
+export type UpdateSecuritySettings = z.infer<typeof updateSecuritySettingsSchema>;
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};